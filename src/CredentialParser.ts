@@ -0,0 +1,43 @@
+import {OpenAPIV3} from "openapi-types";
+import * as lodash from "lodash";
+
+export type CredentialContext = {
+    /**
+     * Name of the scheme in "components.securitySchemes" (e.g. "api_key")
+     */
+    name: string,
+    doc: OpenAPIV3.Document,
+}
+
+/**
+ * Extract information for n8n credentials from OpenAPI security scheme
+ */
+export interface ICredentialParser {
+    /**
+     * Name of the credential type (e.g. "petstoreApiKey") - used in node "credentials"
+     */
+    name(scheme: OpenAPIV3.SecuritySchemeObject, context: CredentialContext): string
+
+    /**
+     * Display name of the credential type (e.g. "Petstore Api Key")
+     */
+    displayName(scheme: OpenAPIV3.SecuritySchemeObject, context: CredentialContext): string
+}
+
+/**
+ * Default behaviour for OpenAPI to n8n credentials parser
+ * It will use API title and security scheme name
+ */
+export class DefaultCredentialParser implements ICredentialParser {
+    name(scheme: OpenAPIV3.SecuritySchemeObject, context: CredentialContext): string {
+        return lodash.camelCase(`${this.title(context)} ${context.name}`)
+    }
+
+    displayName(scheme: OpenAPIV3.SecuritySchemeObject, context: CredentialContext): string {
+        return `${this.title(context)} ${lodash.startCase(context.name)}`.trim()
+    }
+
+    private title(context: CredentialContext): string {
+        return context.doc.info?.title || ''
+    }
+}
@@ -0,0 +1,180 @@
+import {NodeContext, OpenAPIVisitor, OperationContext} from "./openapi/OpenAPIVisitor";
+import {OpenAPIV3} from "openapi-types";
+import {ICredentialType, INodeProperties} from "n8n-workflow";
+import pino from "pino";
+import * as lodash from "lodash";
+import {ICredentialParser} from "./CredentialParser";
+import {RefResolver} from "./openapi/RefResolver";
+import {N8NCredentials} from "./n8n/SecuritySchemeToCredentials";
+import {CREDENTIAL_TEST_EXTENSION, N8NCredentialTest} from "./n8n/OperationToCredentialTest";
+import {N8NRequestDefaults, ServerConfig} from "./n8n/ServerToRequestDefaults";
+
+export interface CredentialsCollectorConfig {
+    server?: ServerConfig;
+    /**
+     * operationId of the operation to test credentials with,
+     * a GET operation without required parameters is picked by default
+     */
+    testOperationId?: string;
+}
+
+type TestOperation = {
+    operation: OpenAPIV3.OperationObject,
+    context: OperationContext,
+    /**
+     * Schemes the operation accepts, undefined if the operation has no "security"
+     */
+    schemes?: string[],
+    /**
+     * Marked with config or vendor extension
+     */
+    explicit: boolean,
+}
+
+/**
+ * Collects n8n credential types from OpenAPI "components.securitySchemes"
+ * OAuth2 credentials request the scopes used by operations,
+ * the rest are tested with an operation that accepts the scheme
+ */
+export class CredentialsCollector implements OpenAPIVisitor {
+    private readonly schemes = new Map<string, OpenAPIV3.SecuritySchemeObject>()
+    private readonly scopes = new Map<string, Set<string>>()
+    private readonly refResolver: RefResolver
+    private readonly n8nCredentials = new N8NCredentials()
+    private readonly n8nCredentialTest: N8NCredentialTest
+    private readonly requestDefaults: N8NRequestDefaults
+    private readonly testOperations: TestOperation[] = []
+
+    constructor(
+        private doc: OpenAPIV3.Document,
+        protected credentialParser: ICredentialParser,
+        protected logger: pino.Logger,
+        private config: CredentialsCollectorConfig = {},
+    ) {
+        this.refResolver = new RefResolver(doc)
+        this.n8nCredentialTest = new N8NCredentialTest(doc, config.server)
+        this.requestDefaults = new N8NRequestDefaults(doc, config.server)
+    }
+
+    get credentials(): ICredentialType[] {
+        const credentials: ICredentialType[] = []
+        for (const [name, scheme] of this.schemes) {
+            const scopes = Array.from(this.scopes.get(name) || [])
+            const definition = this.n8nCredentials.fromSecurityScheme(scheme, scopes)
+            if (!definition) {
+                this.logger.warn({scheme: name, type: scheme.type}, 'Unsupported security scheme, skipping')
+                continue
+            }
+            if (scheme.type === 'oauth2') {
+                this.checkRefreshUrl(name, scheme)
+            }
+            const context = {name: name, doc: this.doc}
+            const credential: ICredentialType = {
+                name: this.credentialParser.name(scheme, context),
+                displayName: this.credentialParser.displayName(scheme, context),
+                properties: [...definition.properties, ...this.serverFields(name, definition.properties)],
+            }
+            if (definition.extends) {
+                credential.extends = definition.extends
+            }
+            if (definition.authenticate) {
+                credential.authenticate = definition.authenticate
+                const test = this.testOperation(name)
+                if (test) {
+                    credential.test = this.n8nCredentialTest.fromOperation(test.operation, test.context)
+                }
+            }
+            credentials.push(credential)
+        }
+        return credentials
+    }
+
+    visitOperation(operation: OpenAPIV3.OperationObject, context: OperationContext) {
+        this.addTestOperation(operation, context)
+        const requirements = operation.security || this.doc.security || []
+        for (const requirement of requirements) {
+            for (const [name, scopes] of Object.entries(requirement)) {
+                if (!this.scopes.has(name)) {
+                    this.scopes.set(name, new Set<string>())
+                }
+                scopes.forEach((scope) => this.scopes.get(name)!!.add(scope))
+            }
+        }
+    }
+
+    visitSecurityScheme(scheme: OpenAPIV3.ReferenceObject | OpenAPIV3.SecuritySchemeObject, context: NodeContext) {
+        const resolved = this.refResolver.resolve<OpenAPIV3.SecuritySchemeObject>(scheme)
+        this.schemes.set(context.name!!, resolved)
+    }
+
+    /**
+     * Base URL references server variables in credentials by default, so every credential has them
+     */
+    private serverFields(scheme: string, properties: INodeProperties[]): INodeProperties[] {
+        if ((this.config.server?.variables || 'credentials') !== 'credentials') {
+            return []
+        }
+        return this.requestDefaults.fields().filter((field) => {
+            const clash = properties.some((property) => property.name === field.name)
+            if (clash) {
+                this.logger.warn(
+                    {scheme: scheme, variable: field.name},
+                    'Server variable has the same name as a credential property, skipping',
+                )
+            }
+            return !clash
+        })
+    }
+
+    private addTestOperation(operation: OpenAPIV3.OperationObject, context: OperationContext) {
+        const explicit = (
+            operation.operationId !== undefined && operation.operationId === this.config.testOperationId
+        ) || (operation as any)[CREDENTIAL_TEST_EXTENSION] === true
+        if (explicit && this.n8nCredentialTest.url(context) === undefined) {
+            this.logger.warn(
+                {operationId: operation.operationId, path: context.pattern},
+                'Credential test operation has path parameters without example or default, skipping',
+            )
+            return
+        }
+        if (!explicit && !this.n8nCredentialTest.isCandidate(operation, context)) {
+            return
+        }
+        const requirements = operation.security || this.doc.security
+        this.testOperations.push({
+            operation: operation,
+            context: context,
+            // Only requirements with a single scheme can be tested with one credential
+            schemes: requirements
+                ?.filter((requirement) => Object.keys(requirement).length === 1)
+                .map((requirement) => Object.keys(requirement)[0]),
+            explicit: explicit,
+        })
+    }
+
+    /**
+     * Explicitly marked operation first, then the one with the shortest path
+     */
+    private testOperation(scheme: string): TestOperation | undefined {
+        const operations = this.testOperations.filter((test) => !test.schemes || test.schemes.includes(scheme))
+        const explicit = operations.find((test) => test.explicit)
+        if (explicit) {
+            return explicit
+        }
+        return lodash.minBy(operations, (test) => test.context.pattern.length)
+    }
+
+    /**
+     * n8n refreshes OAuth2 tokens with the access token URL, there's no way to set a separate one
+     */
+    private checkRefreshUrl(name: string, scheme: OpenAPIV3.OAuth2SecurityScheme) {
+        for (const flow of Object.values(scheme.flows)) {
+            if (flow.refreshUrl && 'tokenUrl' in flow && flow.refreshUrl !== flow.tokenUrl) {
+                this.logger.warn(
+                    {scheme: name, refreshUrl: flow.refreshUrl, tokenUrl: flow.tokenUrl},
+                    'n8n refreshes OAuth2 tokens with the access token URL, refreshUrl is ignored',
+                )
+            }
+        }
+    }
+}
@@ -0,0 +1,464 @@
+import {N8NCredentialsBuilder} from './N8NCredentialsBuilder';
+
+const logger: any = {info: jest.fn(), warn: jest.fn()}
+
+test('credentials from security schemes', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: [{url: 'https://api.example.com'}],
+        paths: {},
+        components: {
+            securitySchemes: {
+                api_key: {
+                    type: 'apiKey',
+                    name: 'X-Api-Key',
+                    in: 'header',
+                    description: 'Key from the account settings',
+                },
+                queryKey: {type: 'apiKey', name: 'key', in: 'query'},
+                session: {type: 'apiKey', name: 'SESSION', in: 'cookie'},
+                bearer: {type: 'http', scheme: 'bearer', bearerFormat: 'JWT'},
+                basic: {$ref: '#/components/securitySchemes/basicAuth'},
+                basicAuth: {type: 'http', scheme: 'basic'},
+                openId: {type: 'openIdConnect', openIdConnectUrl: 'https://example.com/.well-known'},
+            },
+        },
+    };
+    const builder = new N8NCredentialsBuilder(doc, {logger: logger})
+    const result = builder.build()
+    expect(result).toEqual([
+        {
+            name: 'petstoreApiKey',
+            displayName: 'Petstore Api Key',
+            properties: [
+                {
+                    displayName: 'API Key',
+                    name: 'apiKey',
+                    type: 'string',
+                    typeOptions: {password: true},
+                    default: '',
+                    description: 'Key from the account settings',
+                },
+            ],
+            authenticate: {
+                type: 'generic',
+                properties: {
+                    headers: {'X-Api-Key': '={{$credentials.apiKey}}'},
+                },
+            },
+        },
+        {
+            name: 'petstoreQueryKey',
+            displayName: 'Petstore Query Key',
+            properties: [
+                {
+                    displayName: 'API Key',
+                    name: 'apiKey',
+                    type: 'string',
+                    typeOptions: {password: true},
+                    default: '',
+                },
+            ],
+            authenticate: {
+                type: 'generic',
+                properties: {
+                    qs: {key: '={{$credentials.apiKey}}'},
+                },
+            },
+        },
+        {
+            name: 'petstoreSession',
+            displayName: 'Petstore Session',
+            properties: [
+                {
+                    displayName: 'API Key',
+                    name: 'apiKey',
+                    type: 'string',
+                    typeOptions: {password: true},
+                    default: '',
+                },
+            ],
+            authenticate: expect.any(Function),
+        },
+        {
+            name: 'petstoreBearer',
+            displayName: 'Petstore Bearer',
+            properties: [
+                {
+                    displayName: 'Token',
+                    name: 'token',
+                    type: 'string',
+                    typeOptions: {password: true},
+                    default: '',
+                },
+            ],
+            authenticate: {
+                type: 'generic',
+                properties: {
+                    headers: {Authorization: '=Bearer {{$credentials.token}}'},
+                },
+            },
+        },
+        {
+            name: 'petstoreBasic',
+            displayName: 'Petstore Basic',
+            properties: [
+                {
+                    displayName: 'Username',
+                    name: 'username',
+                    type: 'string',
+                    default: '',
+                },
+                {
+                    displayName: 'Password',
+                    name: 'password',
+                    type: 'string',
+                    typeOptions: {password: true},
+                    default: '',
+                },
+            ],
+            authenticate: {
+                type: 'generic',
+                properties: {
+                    auth: {
+                        username: '={{$credentials.username}}',
+                        password: '={{$credentials.password}}',
+                    },
+                },
+            },
+        },
+        expect.objectContaining({name: 'petstoreBasicAuth'}),
+    ])
+    expect(logger.warn).toHaveBeenCalledWith(
+        {scheme: 'openId', type: 'openIdConnect'},
+        'Unsupported security scheme, skipping',
+    )
+});
+
+test('cookie credential is merged with cookie parameters', async () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        paths: {},
+        components: {
+            securitySchemes: {
+                session: {type: 'apiKey', name: 'SESSION', in: 'cookie'},
+            },
+        },
+    };
+    const builder = new N8NCredentialsBuilder(doc, {logger: logger})
+    const authenticate: any = builder.build()[0].authenticate
+    const withCookies = await authenticate(
+        {apiKey: 'secret'},
+        {url: '/pets', headers: {Cookie: 'theme=dark; lang=en', Accept: 'application/json'}},
+    )
+    expect(withCookies.headers).toEqual({Cookie: 'theme=dark; lang=en; SESSION=secret', Accept: 'application/json'})
+    const withoutCookies = await authenticate({apiKey: 'secret'}, {url: '/pets'})
+    expect(withoutCookies.headers).toEqual({Cookie: 'SESSION=secret'})
+});
+
+test('credentials from swagger 2.0 security definitions', () => {
+    const doc = {
+        swagger: '2.0',
+        info: {title: 'Legacy API', version: '1.0.0'},
+        paths: {},
+        securityDefinitions: {
+            token: {type: 'apiKey', name: 'token', in: 'query'},
+        },
+    };
+    const builder = new N8NCredentialsBuilder(doc, {logger: logger})
+    const result = builder.build()
+    expect(result.map((c) => c.name)).toEqual(['legacyApiToken'])
+    expect(result[0].authenticate).toEqual({
+        type: 'generic',
+        properties: {
+            qs: {token: '={{$credentials.apiKey}}'},
+        },
+    })
+});
+
+test('oauth2 credentials', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: [{url: 'https://api.example.com'}],
+        security: [{oauth: ['pets:read']}],
+        paths: {
+            '/pets': {
+                get: {operationId: 'ListPets'},
+                post: {operationId: 'CreatePet', security: [{oauth: ['pets:read', 'pets:write']}]},
+            },
+        },
+        components: {
+            securitySchemes: {
+                oauth: {
+                    type: 'oauth2',
+                    flows: {
+                        implicit: {
+                            authorizationUrl: 'https://example.com/oauth/authorize',
+                            scopes: {'pets:read': 'Read pets'},
+                        },
+                        clientCredentials: {
+                            tokenUrl: 'https://example.com/oauth/client-token',
+                            scopes: {'pets:read': 'Read pets'},
+                        },
+                        authorizationCode: {
+                            authorizationUrl: 'https://example.com/oauth/authorize',
+                            tokenUrl: 'https://example.com/oauth/token',
+                            refreshUrl: 'https://example.com/oauth/refresh',
+                            scopes: {
+                                'pets:read': 'Read pets',
+                                'pets:write': 'Write pets',
+                                'admin': 'Admin',
+                            },
+                        },
+                    },
+                },
+                machine: {
+                    type: 'oauth2',
+                    flows: {
+                        clientCredentials: {
+                            tokenUrl: 'https://example.com/oauth/token',
+                            scopes: {'stats': 'Stats', 'reports': 'Reports'},
+                        },
+                    },
+                },
+                legacy: {
+                    type: 'oauth2',
+                    flows: {
+                        password: {tokenUrl: 'https://example.com/oauth/token', scopes: {}},
+                    },
+                },
+            },
+        },
+    };
+    const logger: any = {info: jest.fn(), warn: jest.fn()}
+    const builder = new N8NCredentialsBuilder(doc, {logger: logger})
+    const result = builder.build()
+    expect(result).toEqual([
+        {
+            name: 'petstoreOauth',
+            displayName: 'Petstore Oauth',
+            extends: ['oAuth2Api'],
+            properties: [
+                {displayName: 'Grant Type', name: 'grantType', type: 'hidden', default: 'authorizationCode'},
+                {
+                    displayName: 'Authorization URL',
+                    name: 'authUrl',
+                    type: 'hidden',
+                    default: 'https://example.com/oauth/authorize',
+                },
+                {
+                    displayName: 'Access Token URL',
+                    name: 'accessTokenUrl',
+                    type: 'hidden',
+                    default: 'https://example.com/oauth/token',
+                },
+                {displayName: 'Scope', name: 'scope', type: 'hidden', default: 'pets:read pets:write'},
+                {displayName: 'Auth URI Query Parameters', name: 'authQueryParameters', type: 'hidden', default: ''},
+                {displayName: 'Authentication', name: 'authentication', type: 'hidden', default: 'header'},
+            ],
+        },
+        {
+            name: 'petstoreMachine',
+            displayName: 'Petstore Machine',
+            extends: ['oAuth2Api'],
+            properties: [
+                {displayName: 'Grant Type', name: 'grantType', type: 'hidden', default: 'clientCredentials'},
+                {
+                    displayName: 'Access Token URL',
+                    name: 'accessTokenUrl',
+                    type: 'hidden',
+                    default: 'https://example.com/oauth/token',
+                },
+                {displayName: 'Scope', name: 'scope', type: 'hidden', default: 'stats reports'},
+                {displayName: 'Auth URI Query Parameters', name: 'authQueryParameters', type: 'hidden', default: ''},
+                {displayName: 'Authentication', name: 'authentication', type: 'hidden', default: 'header'},
+            ],
+        },
+    ])
+    expect(logger.warn).toHaveBeenCalledWith(
+        {scheme: 'legacy', type: 'oauth2'},
+        'Unsupported security scheme, skipping',
+    )
+    expect(logger.warn).toHaveBeenCalledWith(
+        {scheme: 'oauth', refreshUrl: 'https://example.com/oauth/refresh', tokenUrl: 'https://example.com/oauth/token'},
+        'n8n refreshes OAuth2 tokens with the access token URL, refreshUrl is ignored',
+    )
+});
+
+test('node credentials', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        paths: {},
+        components: {
+            securitySchemes: {
+                bearer: {type: 'http', scheme: 'bearer'},
+            },
+        },
+    };
+    const builder = new N8NCredentialsBuilder(doc, {logger: logger})
+    expect(builder.buildNodeCredentials()).toEqual([
+        {
+            name: 'petstoreBearer',
+            required: true,
+            displayOptions: {
+                show: {
+                    authentication: ['petstoreBearer'],
+                },
+            },
+        },
+    ])
+});
+
+test('credential test request', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: [{url: 'https://api.example.com/v1'}],
+        security: [{apiKey: []}],
+        paths: {
+            '/pets': {
+                get: {
+                    operationId: 'ListPets',
+                    parameters: [{name: 'limit', in: 'query', schema: {type: 'integer'}}],
+                    responses: {'200': {description: 'OK'}},
+                },
+                post: {operationId: 'CreatePet', responses: {'201': {description: 'Created'}}},
+            },
+            '/pets/{id}': {
+                parameters: [{name: 'id', in: 'path', required: true, schema: {type: 'integer', example: 1}}],
+                get: {operationId: 'GetPet', responses: {'200': {description: 'OK'}}},
+            },
+            '/owners/{ownerId}': {
+                get: {
+                    operationId: 'GetOwner',
+                    parameters: [{name: 'ownerId', in: 'path', required: true, schema: {type: 'string'}}],
+                    responses: {'200': {description: 'OK'}},
+                },
+            },
+            '/me': {
+                get: {
+                    operationId: 'GetMe',
+                    parameters: [{name: 'fields', in: 'query', required: true, schema: {type: 'string'}}],
+                    responses: {'200': {description: 'OK'}},
+                },
+            },
+            '/account/profile': {
+                get: {
+                    operationId: 'GetProfile',
+                    security: [{bearer: []}],
+                    servers: [{url: 'https://accounts.example.com'}],
+                    responses: {
+                        '200': {description: 'OK'},
+                        '204': {description: 'No content'},
+                        '401': {description: 'Token is invalid or expired'},
+                        '403': {$ref: '#/components/responses/Forbidden'},
+                    },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                apiKey: {type: 'apiKey', name: 'X-Api-Key', in: 'header'},
+                bearer: {type: 'http', scheme: 'bearer'},
+            },
+            responses: {
+                Forbidden: {description: 'Not enough permissions'},
+            },
+        },
+    };
+    const builder = new N8NCredentialsBuilder(doc, {logger: logger})
+    const tests = builder.build().map((credential) => credential.test!!)
+    expect(tests[0].request).toEqual({
+        baseURL: 'https://api.example.com/v1',
+        url: '/pets',
+        method: 'GET',
+        returnFullResponse: true,
+    })
+    // Other 2xx statuses fail the test
+    expect(tests[0].rules!![0]).toEqual({
+        type: 'responseSuccessBody',
+        properties: {key: 'statusCode', value: 201, message: 'Unexpected 201 response, expected 200'},
+    })
+    expect(tests[0].rules!!.map((rule) => rule.properties.value)).toEqual([201, 202, 203, 204, 205, 206, 207, 208, 226])
+
+    expect(tests[1].request).toEqual({
+        baseURL: 'https://accounts.example.com',
+        url: '/account/profile',
+        method: 'GET',
+        returnFullResponse: true,
+    })
+    expect(tests[1].rules!!.slice(0, 2)).toEqual([
+        {type: 'responseCode', properties: {value: 401, message: 'Token is invalid or expired'}},
+        {type: 'responseCode', properties: {value: 403, message: 'Not enough permissions'}},
+    ])
+    // Declared 200 and 204 are both fine
+    expect(tests[1].rules!!.slice(2).map((rule) => rule.properties.value)).toEqual([201, 202, 203, 205, 206, 207, 208, 226])
+
+    const configured = new N8NCredentialsBuilder(doc, {logger: logger, testOperationId: 'GetMe'})
+    expect(configured.build()[0].test!!.request.url).toEqual('/me')
+
+    // Path parameters are filled from examples
+    const withPath = new N8NCredentialsBuilder(doc, {logger: logger, testOperationId: 'GetPet'})
+    expect(withPath.build()[0].test!!.request.url).toEqual('/pets/1')
+
+    // ...or the operation is skipped
+    const warnLogger: any = {info: jest.fn(), warn: jest.fn()}
+    const withoutExample = new N8NCredentialsBuilder(doc, {logger: warnLogger, testOperationId: 'GetOwner'})
+    expect(withoutExample.build()[0].test!!.request.url).toEqual('/pets')
+    expect(warnLogger.warn).toHaveBeenCalledWith(
+        {operationId: 'GetOwner', path: '/owners/{ownerId}'},
+        'Credential test operation has path parameters without example or default, skipping',
+    )
+
+    const paths: any = doc.paths
+    paths['/status'] = {
+        get: {operationId: 'GetStatus', 'x-n8n-credential-test': true, responses: {'200': {description: 'OK'}}},
+    }
+    const marked = new N8NCredentialsBuilder(doc, {logger: logger})
+    expect(marked.build()[0].test!!.request.url).toEqual('/status')
+});
+
+test('server variables in credentials', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: [
+            {
+                url: 'https://{region}.example.com',
+                variables: {
+                    region: {default: 'eu', enum: ['eu', 'us']},
+                    apiKey: {default: 'x'},
+                },
+            },
+        ],
+        paths: {},
+        components: {
+            securitySchemes: {
+                key: {type: 'apiKey', name: 'X-Api-Key', in: 'header'},
+            },
+        },
+    };
+    const logger: any = {info: jest.fn(), warn: jest.fn()}
+    const [credential] = new N8NCredentialsBuilder(doc, {logger: logger}).build()
+    expect(credential.properties.map((property) => property.name)).toEqual(['apiKey', 'region'])
+    expect(credential.properties[1]).toEqual({
+        displayName: 'Region',
+        name: 'region',
+        type: 'options',
+        options: [{name: 'eu', value: 'eu'}, {name: 'us', value: 'us'}],
+        default: 'eu',
+        required: true,
+    })
+    expect(logger.warn).toHaveBeenCalledWith(
+        {scheme: 'key', variable: 'apiKey'},
+        'Server variable has the same name as a credential property, skipping',
+    )
+
+    // Node parameters have them instead
+    const parameters = new N8NCredentialsBuilder(doc, {logger: logger, server: {variables: 'parameters'}}).build()
+    expect(parameters[0].properties.map((property) => property.name)).toEqual(['apiKey'])
+});
@@ -0,0 +1,66 @@
+import {ICredentialType, INodeCredentialDescription} from 'n8n-workflow';
+import {OpenAPIV3} from 'openapi-types';
+import pino from 'pino';
+import {OpenAPIWalker} from "./openapi/OpenAPIWalker";
+import {isSwagger2, Swagger2Converter} from "./openapi/Swagger2";
+import {CredentialsCollector} from "./CredentialsCollector";
+import {DefaultCredentialParser, ICredentialParser} from "./CredentialParser";
+import {ServerConfig} from "./n8n/ServerToRequestDefaults";
+
+export interface N8NCredentialsBuilderConfig {
+    logger?: pino.Logger;
+    credential?: ICredentialParser,
+    server?: ServerConfig,
+    /**
+     * operationId of the operation to test credentials with
+     */
+    testOperationId?: string,
+}
+
+/**
+ * Builds n8n credential types from OpenAPI "components.securitySchemes",
+ * one per supported scheme - apiKey (header, query, cookie), http bearer, http basic and oauth2.
+ */
+export class N8NCredentialsBuilder {
+    private readonly doc: OpenAPIV3.Document;
+    private readonly logger: pino.Logger
+    private readonly walker: OpenAPIWalker;
+    private readonly config: N8NCredentialsBuilderConfig;
+
+    // DI
+    private readonly credentialParser: ICredentialParser;
+
+    constructor(doc: any, config?: N8NCredentialsBuilderConfig) {
+        this.doc = isSwagger2(doc) ? new Swagger2Converter(doc).convert() : doc
+        this.logger = config?.logger || pino({transport: {target: 'pino-pretty'}})
+        this.walker = new OpenAPIWalker(this.doc)
+        this.config = config || {}
+
+        // DI
+        this.credentialParser = config?.credential || new DefaultCredentialParser()
+    }
+
+    build(): ICredentialType[] {
+        const collector = new CredentialsCollector(this.doc, this.credentialParser, this.logger, {
+            server: this.config.server,
+            testOperationId: this.config.testOperationId,
+        })
+        this.walker.walk(collector)
+        return collector.credentials
+    }
+
+    /**
+     * Node "credentials" - each one is shown when the operation "authentication" field selects it
+     */
+    buildNodeCredentials(): INodeCredentialDescription[] {
+        return this.build().map((credential) => ({
+            name: credential.name,
+            required: true,
+            displayOptions: {
+                show: {
+                    authentication: [credential.name],
+                },
+            },
+        }))
+    }
+}
@@ -1,4 +1,5 @@
 import { N8NPropertiesBuilder, Override } from './N8NPropertiesBuilder';
+import { INodeProperties } from "n8n-workflow";
 
 import { BaseOperationsCollector } from "./OperationsCollector";
 import { OpenAPIV3 } from "openapi-types";
@@ -6,6 +7,8 @@ import { OperationContext } from "./openapi/OpenAPIVisitor";
 import * as lodash from "lodash";
 import { DefaultOperationParser } from "./OperationParser";
 import { DefaultResourceParser } from "./ResourceParser";
+import { Swagger2Converter } from "./openapi/Swagger2";
+import { N8NCredentialsBuilder } from "./N8NCredentialsBuilder";
 
 export class CustomOperationParser extends DefaultOperationParser {
     name(operation: OpenAPIV3.OperationObject, context: OperationContext): string {
@@ -637,6 +640,7 @@ test('request body', () => {
             type: 'string',
             default: 'default',
             description: 'Entity name',
+            hint: 'At most 54 characters',
             required: true,
             displayOptions: {
                 show: {
@@ -1046,6 +1050,7 @@ test('test overrides', () => {
             type: 'string',
             default: 'default',
             description: 'Entity name',
+            hint: 'At most 54 characters',
             required: true,
             displayOptions: {
                 show: {
@@ -1542,3 +1547,1983 @@ test('array query parameters', () => {
     // expect(limitField?.type).toBe('number');
     // expect(limitField?.routing?.send?.value).toBe('={{ $value }}');
 });
+
+test('swagger 2.0 document', () => {
+    const doc = {
+        swagger: '2.0',
+        info: {title: 'Entities', version: '1.0'},
+        host: 'api.example.com',
+        basePath: '/v1',
+        schemes: ['https'],
+        paths: {
+            '/api/entities': {
+                post: {
+                    operationId: 'EntityController_create',
+                    summary: 'Create entity',
+                    parameters: [
+                        {
+                            name: 'ids',
+                            in: 'query',
+                            type: 'array',
+                            items: {type: 'string'},
+                            collectionFormat: 'csv',
+                        },
+                        {
+                            name: 'body',
+                            in: 'body',
+                            required: true,
+                            schema: {$ref: '#/definitions/Entity'},
+                        },
+                    ],
+                    responses: {
+                        '200': {description: 'OK', schema: {$ref: '#/definitions/Entity'}},
+                    },
+                    tags: ['🖥️ Entity'],
+                },
+            },
+        },
+        definitions: {
+            Entity: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                    name: {type: 'string', example: 'entity'},
+                },
+            },
+        },
+    };
+
+    const parser = new N8NPropertiesBuilder(doc, {
+        OperationsCollector: BaseOperationsCollector,
+        operation: new CustomOperationParser(),
+        resource: new CustomResourceParser(),
+    });
+    const result = parser.build()
+
+    const name = result.find((field) => field.name === 'name')
+    expect(name).toEqual({
+        displayName: 'Name',
+        name: 'name',
+        type: 'string',
+        default: 'entity',
+        required: true,
+        displayOptions: {
+            show: {
+                resource: ['Entity'],
+                operation: ['Create'],
+            },
+        },
+        routing: {
+            send: {
+                property: 'name',
+                propertyInDotNotation: false,
+                type: 'body',
+                value: '={{ $value }}',
+            },
+        },
+    })
+    const additionalFields = result.find((field) => field.name === 'additionalFields')
+    const ids: any = additionalFields?.options?.find((option: any) => option.name === 'ids')
+    expect(ids.routing.send.value).toContain('join(",")')
+    // Original document is left as is
+    expect(doc.paths['/api/entities'].post.parameters[1].in).toEqual('body')
+});
+
+test('openapi 3.1 schemas', () => {
+    const doc = {
+        openapi: '3.1.0',
+        paths: {
+            '/api/entities': {
+                post: {
+                    operationId: 'EntityController_create',
+                    summary: 'Create entity',
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {$ref: '#/components/schemas/Entity'},
+                            },
+                        },
+                    },
+                    tags: ['🖥️ Entity'],
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Entity: {
+                    type: 'object',
+                    required: ['name', 'kind'],
+                    properties: {
+                        name: {type: ['string', 'null'], examples: ['entity']},
+                        kind: {const: 'entity'},
+                        count: {type: ['integer', 'null']},
+                        point: {type: 'array', prefixItems: [{type: 'number', examples: [1]}, {type: 'number', examples: [2]}]},
+                        config: {anyOf: [{type: 'null'}, {$ref: '#/$defs/Config'}]},
+                    },
+                },
+            },
+        },
+        $defs: {
+            Config: {
+                type: 'object',
+                properties: {
+                    foo: {type: 'string', examples: ['bar']},
+                },
+            },
+        },
+    };
+
+    const parser = new N8NPropertiesBuilder(doc, {
+        OperationsCollector: BaseOperationsCollector,
+        operation: new CustomOperationParser(),
+        resource: new CustomResourceParser(),
+    });
+    const result = parser.build()
+
+    const name = result.find((field) => field.name === 'name')
+    expect(name?.type).toEqual('string')
+    expect(name?.default).toEqual('entity')
+
+    const kind = result.find((field) => field.name === 'kind')
+    expect(kind?.type).toEqual('options')
+    expect(kind?.options).toEqual([{name: 'Entity', value: 'entity'}])
+    expect(kind?.default).toEqual('entity')
+
+    const additionalFields = result.find((field) => field.name === 'additionalFields')
+    const options: any = lodash.keyBy(additionalFields?.options, 'name')
+    expect(options.count.type).toEqual('number')
+    expect(options.point.type).toEqual('json')
+    expect(JSON.parse(options.point.default)).toEqual([1, 2])
+    expect(options.config.type).toEqual('json')
+    expect(JSON.parse(options.config.default)).toEqual({foo: 'bar'})
+});
+
+test('ref into paths with escaped pointer', () => {
+    const paths = {
+        '/api/users/{id}': {
+            get: {
+                operationId: 'UserController_get',
+                summary: 'Get user',
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: {type: 'string'},
+                    },
+                ],
+                tags: ['User'],
+            },
+            delete: {
+                operationId: 'UserController_delete',
+                summary: 'Delete user',
+                parameters: [
+                    {$ref: '#/paths/~1api~1users~1%7Bid%7D/get/parameters/0'},
+                    {$ref: '#/components/parameters/missing'},
+                ],
+                tags: ['User'],
+            },
+        },
+    };
+    const logger: any = {info: jest.fn(), warn: jest.fn()}
+    const parser = new N8NPropertiesBuilder({paths, components: {parameters: {}}}, {
+        logger: logger,
+        OperationsCollector: BaseOperationsCollector,
+        operation: new CustomOperationParser(),
+        resource: new CustomResourceParser(),
+    });
+    const result = parser.build()
+
+    const ids = result.filter((field) => field.name === 'id')
+    expect(ids.length).toEqual(1)
+    expect(ids[0].displayOptions?.show?.operation).toEqual(['Get'])
+    expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+            error: "Error: Can not resolve ref '#/components/parameters/missing': segment 'missing' not found in '#/components/parameters'"
+        }),
+        'Failed to parse operation',
+    )
+});
+
+test('recursive schemas', () => {
+    const body = (properties: any) => ({
+        required: true,
+        content: {
+            'application/json': {
+                schema: {type: 'object', properties: properties},
+            },
+        },
+    })
+    const paths = {
+        '/api/comments': {
+            post: {
+                operationId: 'CommentController_create',
+                summary: 'Create comment',
+                requestBody: body({
+                    comment: {$ref: '#/components/schemas/Comment'},
+                    billing: {$ref: '#/components/schemas/Address'},
+                    shipping: {$ref: '#/components/schemas/Address'},
+                }),
+                tags: ['Comment'],
+            },
+        },
+        '/api/loops': {
+            post: {
+                operationId: 'LoopController_create',
+                summary: 'Create loop',
+                requestBody: body({
+                    loop: {$ref: '#/components/schemas/LoopA'},
+                }),
+                tags: ['Loop'],
+            },
+        },
+    };
+    const components = {
+        schemas: {
+            Comment: {
+                type: 'object',
+                properties: {
+                    text: {type: 'string', example: 'Hi'},
+                    author: {
+                        allOf: [
+                            {$ref: '#/components/schemas/Author'},
+                            {$ref: '#/components/schemas/Comment'},
+                        ],
+                    },
+                    replies: {type: 'array', items: {$ref: '#/components/schemas/Comment'}},
+                },
+            },
+            Author: {
+                type: 'object',
+                properties: {
+                    name: {type: 'string', example: 'John'},
+                },
+            },
+            Address: {
+                type: 'object',
+                properties: {
+                    city: {type: 'string', example: 'Berlin'},
+                },
+            },
+            LoopA: {$ref: '#/components/schemas/LoopB'},
+            LoopB: {$ref: '#/components/schemas/LoopA'},
+        },
+    };
+    const logger: any = {info: jest.fn(), warn: jest.fn()}
+    const parser = new N8NPropertiesBuilder({paths, components}, {
+        logger: logger,
+        OperationsCollector: BaseOperationsCollector,
+        operation: new CustomOperationParser(),
+        resource: new CustomResourceParser(),
+    });
+    const result = parser.build()
+
+    const options: any = lodash.keyBy(result.find((field) => field.name === 'additionalFields')?.options, 'name')
+    expect(JSON.parse(options.comment.default)).toEqual({text: 'Hi', author: {name: 'John'}, replies: [{}]})
+    // The same schema used by siblings is not a cycle
+    expect(JSON.parse(options.billing.default)).toEqual({city: 'Berlin'})
+    expect(JSON.parse(options.shipping.default)).toEqual({city: 'Berlin'})
+
+    expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+            error: "Error: Circular ref '#/components/schemas/LoopA': #/components/schemas/LoopA -> #/components/schemas/LoopB -> #/components/schemas/LoopA"
+        }),
+        'Failed to parse request body',
+    )
+});
+
+test('does not mutate the document', () => {
+    const doc = {
+        paths: {
+            '/api/entities/{entity}': {
+                parameters: [
+                    {name: 'entity', in: 'path', required: true, schema: {type: 'string'}},
+                ],
+                get: {
+                    operationId: 'EntityController_get',
+                    summary: 'Get entity',
+                    parameters: [
+                        {name: 'all', in: 'query', schema: {type: 'boolean'}},
+                    ],
+                },
+            },
+        },
+    };
+    const original = lodash.cloneDeep(doc)
+    const config = {
+        OperationsCollector: BaseOperationsCollector,
+        operation: new CustomOperationParser(),
+        resource: new CustomResourceParser(),
+    }
+    const first = new N8NPropertiesBuilder(doc, config).build()
+    const second = new N8NPropertiesBuilder(doc, config).build()
+
+    expect(doc).toEqual(original)
+    expect(second).toEqual(first)
+    expect(first.filter((field) => field.name === 'entity').length).toEqual(1)
+    expect(first[0].options).toEqual([{name: 'Default', value: 'Default', description: ''}])
+});
+
+test('request defaults from servers', () => {
+    const doc = {
+        servers: [
+            {url: 'https://api.example.com/'},
+            {
+                url: 'https://{region}.example.com/{version}',
+                variables: {
+                    region: {default: 'eu', enum: ['eu', 'us'], description: 'Region of the account'},
+                    version: {default: 'v1'},
+                },
+            },
+        ],
+        paths: {},
+    };
+
+    const builder = new N8NPropertiesBuilder(doc)
+    expect(builder.buildRequestDefaults()).toEqual({
+        baseURL: 'https://api.example.com',
+        headers: {
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+        },
+    })
+    expect(builder.buildServerFields()).toEqual([])
+
+    const withVariables = new N8NPropertiesBuilder(doc, {server: {index: 1}})
+    expect(withVariables.buildRequestDefaults().baseURL).toEqual(
+        '=https://{{$credentials.region}}.example.com/{{$credentials.version}}'
+    )
+    expect(withVariables.buildServerFields()).toEqual([
+        {
+            displayName: 'Region',
+            name: 'region',
+            type: 'options',
+            default: 'eu',
+            description: 'Region of the account',
+            required: true,
+            options: [
+                {name: 'eu', value: 'eu'},
+                {name: 'us', value: 'us'},
+            ],
+        },
+        {
+            displayName: 'Version',
+            name: 'version',
+            type: 'string',
+            default: 'v1',
+            required: true,
+        },
+    ])
+
+    const inParameters = new N8NPropertiesBuilder(doc, {server: {index: 1, variables: 'parameters'}})
+    expect(inParameters.buildRequestDefaults().baseURL).toEqual(
+        '=https://{{$parameter["region"]}}.example.com/{{$parameter["version"]}}'
+    )
+
+    const relative = new N8NPropertiesBuilder({servers: [{url: '/api/v3'}], paths: {}})
+    expect(relative.buildRequestDefaults().baseURL).toEqual('={{$credentials.url}}/api/v3')
+    expect(relative.buildServerFields()).toEqual([
+        {
+            displayName: 'Base URL',
+            name: 'url',
+            type: 'string',
+            default: '',
+            placeholder: 'https://api.example.com',
+            required: true,
+        },
+    ])
+});
+
+test('operation and path servers override base URL', () => {
+    const doc = {
+        openapi: '3.0.0',
+        servers: [
+            {
+                url: 'https://{region}.example.com/v1',
+                variables: {
+                    region: {default: 'eu'},
+                },
+            },
+        ],
+        paths: {
+            '/files': {
+                servers: [{url: 'https://uploads.example.com'}],
+                post: {
+                    operationId: 'UploadFile',
+                    tags: ['File'],
+                },
+                get: {
+                    operationId: 'GetFiles',
+                    tags: ['File'],
+                    servers: [{url: 'https://{region}.example.com/v1'}],
+                },
+            },
+            '/reports': {
+                get: {
+                    operationId: 'GetReports',
+                    tags: ['Report'],
+                    servers: [
+                        {
+                            url: 'https://{region}.reports.example.com/{version}',
+                            variables: {
+                                region: {default: 'eu'},
+                                version: {default: 'v2'},
+                            },
+                        },
+                    ],
+                },
+                delete: {
+                    operationId: 'DeleteReports',
+                    tags: ['Report'],
+                    servers: [{url: '/reports-api'}],
+                },
+            },
+        },
+    };
+
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+        operation: new DefaultOperationParser(),
+        resource: new DefaultResourceParser(),
+    });
+    const result = parser.build()
+    const requests = lodash.fromPairs(
+        result
+            .filter((p) => p.name === 'operation')
+            .flatMap((p) => p.options as any[])
+            .map((o) => [o.value, o.routing.request])
+    )
+    expect(requests['Upload File']).toEqual({
+        method: 'POST',
+        url: '=/files',
+        baseURL: 'https://uploads.example.com',
+    })
+    expect(requests['Get Files']).toEqual({
+        method: 'GET',
+        url: '=/files',
+    })
+    expect(requests['Get Reports'].baseURL).toEqual('=https://{{$credentials.region}}.reports.example.com/v2')
+    expect(requests['Delete Reports'].baseURL).toEqual('=https://{{$credentials.region}}.example.com/reports-api')
+});
+
+test('operation security requirements', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: [{url: 'https://api.example.com'}],
+        security: [{apiKey: []}],
+        paths: {
+            '/pets': {
+                get: {operationId: 'ListPets', tags: ['Pet'], security: []},
+                post: {operationId: 'CreatePet', tags: ['Pet']},
+                put: {operationId: 'UpdatePet', tags: ['Pet'], security: [{bearer: []}, {}]},
+                delete: {operationId: 'DeletePet', tags: ['Pet'], security: [{openId: []}]},
+            },
+        },
+        components: {
+            securitySchemes: {
+                apiKey: {type: 'apiKey', name: 'X-Api-Key', in: 'header'},
+                bearer: {type: 'http', scheme: 'bearer'},
+                openId: {type: 'openIdConnect', openIdConnectUrl: 'https://example.com/.well-known'},
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = (operation: string) => result
+        .filter((p) => p.displayOptions?.show?.operation?.[0] === operation)
+        .map((p) => lodash.omit(p, 'displayOptions'))
+
+    expect(fields('List Pets')).toEqual([
+        {displayName: 'Authentication', name: 'authentication', type: 'hidden', default: 'none'},
+    ])
+    expect(fields('Create Pet')).toEqual([
+        {displayName: 'Authentication', name: 'authentication', type: 'hidden', default: 'petstoreApiKey'},
+    ])
+    expect(fields('Update Pet')).toEqual([
+        {
+            displayName: 'Authentication',
+            name: 'authentication',
+            type: 'options',
+            options: [
+                {name: 'Petstore Bearer', value: 'petstoreBearer'},
+                {name: 'None', value: 'none'},
+            ],
+            default: 'petstoreBearer',
+        },
+    ])
+    expect(fields('Delete Pet')).toEqual([
+        {
+            displayName: 'The operation requires "openId" authentication which is not supported, kindly use HTTP Request node',
+            name: 'operation',
+            type: 'notice',
+            default: '',
+        },
+        {displayName: 'Authentication', name: 'authentication', type: 'hidden', default: 'none'},
+    ])
+});
+
+test('security schemes without security requirements', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: [{url: 'https://api.example.com'}],
+        paths: {
+            '/pets': {
+                get: {operationId: 'ListPets', tags: ['Pet']},
+            },
+        },
+        components: {
+            securitySchemes: {
+                apiKey: {type: 'apiKey', name: 'X-Api-Key', in: 'header'},
+                bearer: {type: 'http', scheme: 'bearer'},
+                openId: {type: 'openIdConnect', openIdConnectUrl: 'https://example.com/.well-known'},
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = result
+        .filter((p) => p.displayOptions?.show?.operation?.[0] === 'List Pets')
+        .map((p) => lodash.omit(p, 'displayOptions'))
+    expect(fields).toEqual([
+        {
+            displayName: 'Authentication',
+            name: 'authentication',
+            type: 'options',
+            options: [
+                {name: 'Petstore Api Key', value: 'petstoreApiKey'},
+                {name: 'Petstore Bearer', value: 'petstoreBearer'},
+            ],
+            default: 'petstoreApiKey',
+        },
+    ])
+    const credentials = new N8NCredentialsBuilder(doc).buildNodeCredentials()
+    expect(credentials.map((c) => c.displayOptions?.show?.authentication)).toEqual([
+        ['petstoreApiKey'],
+        ['petstoreBearer'],
+    ])
+
+    // No security schemes - no authentication field
+    const plain = new N8NPropertiesBuilder({...doc, components: {}}, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    }).build()
+    expect(plain.filter((p) => p.name === 'authentication')).toEqual([])
+});
+
+test('operations without credentials and server variables in credentials', () => {
+    const paths = {
+        '/pets': {
+            get: {operationId: 'ListPets', tags: ['Pet'], security: []},
+            post: {operationId: 'CreatePet', tags: ['Pet'], security: [{apiKey: []}, {}]},
+            put: {operationId: 'UpdatePet', tags: ['Pet']},
+        },
+    }
+    const build = (servers: any[]) => new N8NPropertiesBuilder({
+        openapi: '3.0.0',
+        info: {title: 'Petstore', version: '1.0.0'},
+        servers: servers,
+        security: [{apiKey: []}],
+        paths: paths,
+        components: {
+            securitySchemes: {
+                apiKey: {type: 'apiKey', name: 'X-Api-Key', in: 'header'},
+            },
+        },
+    }, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    }).build()
+    const notice = {
+        displayName: 'Base URL is set in credentials, the operation can not be sent without them',
+        name: 'operation',
+        type: 'notice',
+        default: '',
+    }
+
+    const result = build([{url: 'https://{region}.example.com', variables: {region: {default: 'eu'}}}])
+    const requests = lodash.fromPairs(
+        result
+            .filter((p) => p.name === 'operation' && p.type === 'options')
+            .flatMap((p) => p.options as any[])
+            .map((o) => [o.value, o.routing.request])
+    )
+    const notices = (operation: string) => result
+        .filter((p) => p.type === 'notice' && p.displayOptions?.show?.operation?.[0] === operation)
+    // Public operation - default variable values
+    expect(requests['List Pets'].baseURL).toEqual('https://eu.example.com')
+    expect(notices('List Pets')).toEqual([])
+    // Optional credentials - notice when "None" is selected
+    expect(requests['Create Pet'].baseURL).toBeUndefined()
+    expect(notices('Create Pet')).toEqual([{
+        ...notice,
+        displayOptions: {show: {authentication: ['none'], resource: ['Pet'], operation: ['Create Pet']}},
+    }])
+    expect(requests['Update Pet'].baseURL).toBeUndefined()
+    expect(notices('Update Pet')).toEqual([])
+
+    // Relative server - base url is in credentials only
+    const relative = build([{url: '/api/v3'}])
+    expect(relative.filter((p) => p.type === 'notice' && p.displayOptions?.show?.operation?.[0] === 'List Pets')).toEqual([{
+        ...notice,
+        displayOptions: {show: {resource: ['Pet'], operation: ['List Pets']}},
+    }])
+});
+
+test('cookie parameters', () => {
+    const paths = {
+        '/pets': {
+            get: {
+                operationId: 'ListPets',
+                tags: ['Pet'],
+                parameters: [
+                    {name: 'session', in: 'cookie', required: true, schema: {type: 'string'}},
+                    {name: 'lang', in: 'cookie', schema: {type: 'string'}},
+                    {name: 'ids', in: 'cookie', explode: false, schema: {type: 'array', items: {type: 'integer'}}},
+                ],
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder({paths}, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+
+    const session = result.find((field) => field.name === 'session')!!
+    expect(lodash.omit(session, 'displayOptions', 'routing')).toEqual({
+        displayName: 'Session',
+        name: 'session',
+        type: 'string',
+        required: true,
+    })
+    const additionalFields = lodash.keyBy(result.find((field) => field.name === 'additionalFields')!!.options, 'name')
+    const cookie = session.routing!!.request!!.headers!!.Cookie as string
+    expect((additionalFields.lang as any).routing!!.request!!.headers!!.Cookie).toEqual(cookie)
+    expect((additionalFields.ids as any).routing!!.request!!.headers!!.Cookie).toEqual(cookie)
+
+    const header = new Function('$parameter', `return ${cookie.slice('={{'.length, -'}}'.length)}`)
+    expect(header({session: 'a b', additionalFields: {}})).toEqual('session=a%20b')
+    expect(header({session: 's', additionalFields: {lang: 'en', ids: '[1, 2]'}})).toEqual('session=s; lang=en; ids=1,2')
+});
+
+test('nested body objects as collections', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/orders': {
+                post: {
+                    operationId: 'CreateOrder',
+                    tags: ['Order'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {$ref: '#/components/schemas/Order'},
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Order: {
+                    type: 'object',
+                    required: ['shipping'],
+                    properties: {
+                        shipping: {
+                            type: 'object',
+                            properties: {
+                                name: {type: 'string'},
+                                address: {$ref: '#/components/schemas/Address'},
+                            },
+                        },
+                        parent: {$ref: '#/components/schemas/Order'},
+                    },
+                },
+                Address: {
+                    type: 'object',
+                    properties: {
+                        city: {type: 'string', example: 'Berlin'},
+                        lines: {type: 'array', items: {type: 'string', example: 'Main st'}},
+                    },
+                },
+            },
+        },
+    };
+    const config = {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    }
+
+    const flat = new N8NPropertiesBuilder(doc, config).build()
+    expect(flat.find((field) => field.name === 'shipping')!!.type).toEqual('json')
+
+    const result = new N8NPropertiesBuilder(doc, {...config, body: {depth: 2}}).build()
+    const shipping = result.find((field) => field.name === 'shipping')!!
+    expect(lodash.omit(shipping, 'displayOptions')).toEqual({
+        displayName: 'Shipping',
+        name: 'shipping',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        required: true,
+        options: [
+            {
+                displayName: 'Name',
+                name: 'name',
+                type: 'string',
+                routing: {
+                    send: {
+                        property: 'shipping.name',
+                        propertyInDotNotation: true,
+                        type: 'body',
+                        value: '={{ $value }}',
+                    },
+                },
+            },
+            {
+                displayName: 'Address',
+                name: 'address',
+                type: 'collection',
+                placeholder: 'Add Field',
+                default: {},
+                options: [
+                    {
+                        displayName: 'City',
+                        name: 'city',
+                        type: 'string',
+                        default: 'Berlin',
+                        routing: {
+                            send: {
+                                property: 'shipping.address.city',
+                                propertyInDotNotation: true,
+                                type: 'body',
+                                value: '={{ $value }}',
+                            },
+                        },
+                    },
+                    {
+                        displayName: 'Lines',
+                        name: 'lines',
+                        type: 'json',
+                        default: '[\n  "Main st"\n]',
+                        routing: {
+                            send: {
+                                property: 'shipping.address.lines',
+                                propertyInDotNotation: true,
+                                type: 'body',
+                                value: '={{ JSON.parse($value) }}',
+                            },
+                        },
+                    },
+                ],
+            },
+        ],
+    })
+
+    // Recursive schema is not expanded, the body schema itself counts
+    const additionalFields = lodash.keyBy(result.find((field) => field.name === 'additionalFields')!!.options, 'name')
+    const parent = additionalFields.parent as INodeProperties
+    expect(parent.type).toEqual('json')
+});
+
+test('oneOf request body as variants', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/payments': {
+                post: {
+                    operationId: 'CreatePayment',
+                    tags: ['Payment'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {$ref: '#/components/schemas/Payment'},
+                            },
+                        },
+                    },
+                },
+            },
+            '/contacts': {
+                post: {
+                    operationId: 'CreateContact',
+                    tags: ['Contact'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    anyOf: [
+                                        {
+                                            title: 'Person',
+                                            type: 'object',
+                                            properties: {name: {type: 'string'}},
+                                        },
+                                        {
+                                            title: 'Company',
+                                            type: 'object',
+                                            properties: {vat: {type: 'string'}},
+                                        },
+                                    ],
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Payment: {
+                    description: 'Payment method',
+                    oneOf: [
+                        {$ref: '#/components/schemas/Card'},
+                        {$ref: '#/components/schemas/BankTransfer'},
+                        {$ref: '#/components/schemas/Wallet'},
+                    ],
+                    discriminator: {
+                        propertyName: 'method',
+                        mapping: {
+                            bank: '#/components/schemas/BankTransfer',
+                        },
+                    },
+                },
+                Card: {
+                    type: 'object',
+                    required: ['method', 'number'],
+                    properties: {
+                        method: {type: 'string', enum: ['card']},
+                        number: {type: 'string'},
+                    },
+                },
+                BankTransfer: {
+                    type: 'object',
+                    required: ['iban'],
+                    properties: {
+                        method: {type: 'string'},
+                        iban: {type: 'string'},
+                        reference: {type: 'string'},
+                    },
+                },
+                Wallet: {
+                    title: 'Digital Wallet',
+                    type: 'object',
+                    properties: {
+                        method: {type: 'string'},
+                        provider: {type: 'string'},
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = (operation: string) => result.filter((p) => p.displayOptions?.show?.operation?.[0] === operation)
+
+    const [method, number, iban, additionalFields] = fields('Create Payment')
+    expect(lodash.omit(method, 'displayOptions')).toEqual({
+        displayName: 'Type',
+        name: 'method',
+        type: 'options',
+        required: true,
+        description: 'Payment method',
+        options: [
+            {name: 'Card', value: 'card'},
+            {name: 'Bank', value: 'bank'},
+            {name: 'Digital Wallet', value: 'Wallet'},
+        ],
+        default: 'card',
+        routing: {
+            send: {
+                property: 'method',
+                propertyInDotNotation: false,
+                type: 'body',
+                value: '={{ $value }}',
+            },
+        },
+    })
+    expect(number.name).toEqual('number')
+    expect(number.displayOptions).toEqual({
+        show: {
+            '/method': ['card'],
+            resource: ['Payment'],
+            operation: ['Create Payment'],
+        },
+    })
+    expect(iban.name).toEqual('iban')
+    expect(iban.displayOptions!!.show!!['/method']).toEqual(['bank'])
+    expect(additionalFields.name).toEqual('additionalFields')
+    expect((additionalFields.options as INodeProperties[]).map((o) => [o.name, o.displayOptions])).toEqual([
+        ['reference', {show: {'/method': ['bank']}}],
+        ['provider', {show: {'/method': ['Wallet']}}],
+    ])
+
+    const [variant] = fields('Create Contact')
+    expect(variant.name).toEqual('variant')
+    expect(variant.options).toEqual([
+        {name: 'Person', value: 'Person'},
+        {name: 'Company', value: 'Company'},
+    ])
+    expect(variant.routing).toBeUndefined()
+});
+
+test('arrays of flat objects in body as fixedCollection', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/orders': {
+                post: {
+                    operationId: 'CreateOrder',
+                    tags: ['Order'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['items', 'attachments'],
+                                    properties: {
+                                        items: {
+                                            type: 'array',
+                                            items: {$ref: '#/components/schemas/OrderItem'},
+                                            example: [{sku: 'A-1', quantity: 2}],
+                                        },
+                                        attachments: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    name: {type: 'string'},
+                                                    size: {type: 'integer'},
+                                                },
+                                            },
+                                        },
+                                        notes: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    text: {type: 'string'},
+                                                    tags: {type: 'array', items: {type: 'string'}},
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                OrderItem: {
+                    type: 'object',
+                    required: ['sku'],
+                    properties: {
+                        sku: {type: 'string'},
+                        quantity: {type: 'integer'},
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const items = result.find((field) => field.name === 'items')!!
+    expect(lodash.omit(items, 'displayOptions')).toEqual({
+        displayName: 'Items',
+        name: 'items',
+        type: 'fixedCollection',
+        placeholder: 'Add Item',
+        required: true,
+        default: {
+            items: [{sku: 'A-1', quantity: 2}],
+        },
+        typeOptions: {
+            multipleValues: true,
+        },
+        options: [
+            {
+                name: 'items',
+                displayName: 'Items',
+                values: [
+                    {displayName: 'Sku', name: 'sku', type: 'string', required: true},
+                    {displayName: 'Quantity', name: 'quantity', type: 'number', typeOptions: {numberPrecision: 0}},
+                ],
+            },
+        ],
+        routing: {
+            send: {
+                property: 'items',
+                propertyInDotNotation: false,
+                type: 'body',
+                value: '={{ $value.items ? $value.items : [] }}',
+            },
+        },
+    })
+
+    // No example - no prefilled empty item
+    const attachments = result.find((field) => field.name === 'attachments')!!
+    expect(attachments.type).toEqual('fixedCollection')
+    expect(attachments.default).toStrictEqual({})
+
+    // Items with nested arrays stay JSON
+    const additionalFields = lodash.keyBy(result.find((field) => field.name === 'additionalFields')!!.options, 'name')
+    expect((additionalFields.notes as INodeProperties).type).toEqual('json')
+});
+
+test('string formats', async () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/users': {
+                post: {
+                    operationId: 'CreateUser',
+                    tags: ['User'],
+                    parameters: [
+                        {name: 'since', in: 'query', required: true, schema: {type: 'string', format: 'date'}},
+                    ],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['email', 'password', 'birthday', 'createdAt', 'avatar', 'website'],
+                                    properties: {
+                                        email: {type: 'string', format: 'email'},
+                                        password: {type: 'string', format: 'password'},
+                                        birthday: {type: 'string', format: 'date'},
+                                        createdAt: {type: 'string', format: 'date-time'},
+                                        avatar: {type: 'string', format: 'byte'},
+                                        website: {type: 'string', format: 'uri'},
+                                        file: {type: 'string', format: 'binary'},
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            '/files': {
+                put: {
+                    operationId: 'UploadFile',
+                    tags: ['File'],
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/octet-stream': {
+                                schema: {type: 'string', format: 'binary'},
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = lodash.keyBy(result.filter((p) => p.name !== 'operation' && p.name !== 'resource'), 'name')
+    const summary = (name: string) => {
+        const field = fields[name]
+        return [field.type, field.typeOptions, field.placeholder, (field.routing?.send?.value || field.routing?.request?.body)]
+    }
+
+    expect(summary('since')).toEqual([
+        'dateTime', undefined, undefined, '={{ $value ? DateTime.fromISO($value).toISODate() : $value }}',
+    ])
+    expect(summary('email')).toEqual(['string', undefined, 'name@email.com', '={{ $value }}'])
+    expect(summary('password')).toEqual(['string', {password: true}, undefined, '={{ $value }}'])
+    expect(summary('birthday')).toEqual([
+        'dateTime', undefined, undefined, '={{ $value ? DateTime.fromISO($value).toISODate() : $value }}',
+    ])
+    expect(summary('createdAt')).toEqual([
+        'dateTime', undefined, undefined, '={{ $value ? DateTime.fromISO($value).toISO() : $value }}',
+    ])
+    expect(summary('avatar')).toEqual(['string', undefined, undefined, '={{ $value }}'])
+    expect(fields.avatar.default).toEqual('data')
+    // The content is read with helpers in any binary data mode
+    const preSend = fields.avatar.routing!!.send!!.preSend!![0]
+    const context: any = {helpers: {getBinaryDataBuffer: jest.fn(async () => Buffer.from('image'))}}
+    const options = await preSend.call(context, {url: '/users', body: {email: 'a@b.c', avatar: 'photo'}})
+    expect(context.helpers.getBinaryDataBuffer).toHaveBeenCalledWith('photo')
+    expect(options.body).toEqual({email: 'a@b.c', avatar: Buffer.from('image').toString('base64')})
+    // Raw binary can't be a part of JSON body
+    const additionalFields = lodash.keyBy(fields.additionalFields.options as INodeProperties[], 'name')
+    expect(additionalFields.file.default).toBeUndefined()
+    expect(additionalFields.file.routing!!.send!!.preSend).toBeUndefined()
+    expect(summary('website')).toEqual(['string', undefined, 'https://example.com', '={{ $value }}'])
+
+    expect(lodash.omit(fields.body, 'displayOptions')).toEqual({
+        displayName: 'Binary Property',
+        name: 'body',
+        type: 'string',
+        required: true,
+        default: 'data',
+        description: 'Name of the binary property containing the file to upload',
+        routing: {
+            send: {
+                type: 'body',
+                property: '$value',
+            },
+            request: {
+                headers: {
+                    'Content-Type': '={{ $binary[$parameter["body"]].mimeType }}',
+                },
+            },
+        },
+    })
+});
+
+test('numeric constraints and string lengths', () => {
+    const doc = {
+        openapi: '3.1.0',
+        paths: {
+            '/items': {
+                get: {
+                    operationId: 'ListItems',
+                    tags: ['Item'],
+                    parameters: [
+                        {name: 'limit', in: 'query', schema: {type: 'integer', minimum: 1, maximum: 100}},
+                        {name: 'offset', in: 'query', schema: {type: 'integer', exclusiveMinimum: -1}},
+                        {name: 'price', in: 'query', schema: {type: 'number', maximum: 10, multipleOf: 0.01}},
+                        {name: 'ratio', in: 'query', schema: {type: 'number', exclusiveMaximum: 1}},
+                        {name: 'score', in: 'query', schema: {type: 'number', exclusiveMinimum: 0, maximum: 5}},
+                        {
+                            name: 'amount',
+                            in: 'query',
+                            schema: {type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 100, multipleOf: 0.01},
+                        },
+                        {name: 'code', in: 'query', schema: {type: 'string', minLength: 3, maxLength: 3}},
+                        {name: 'query', in: 'query', schema: {type: 'string', minLength: 2, maxLength: 50}},
+                        {name: 'name', in: 'query', schema: {type: 'string', minLength: 1}},
+                        {name: 'level', in: 'query', schema: {type: 'integer', enum: [1, 2, 3]}},
+                    ],
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const fields = lodash.keyBy(additionalFields.options as INodeProperties[], 'name')
+
+    expect(fields.limit.typeOptions).toEqual({minValue: 1, maxValue: 100, numberPrecision: 0})
+    expect(fields.offset.typeOptions).toEqual({minValue: 0, numberPrecision: 0})
+    expect(fields.price.typeOptions).toEqual({maxValue: 10, numberPrecision: 2})
+    // Exclusive bounds of numbers can't be stepped over without multipleOf
+    expect(fields.ratio.typeOptions).toEqual({maxValue: 1})
+    expect(fields.ratio.hint).toEqual('Less than 1')
+    expect(fields.score.typeOptions).toEqual({minValue: 0, maxValue: 5})
+    expect(fields.score.hint).toEqual('Greater than 0')
+    expect(fields.amount.typeOptions).toEqual({minValue: 0.01, maxValue: 99.99, numberPrecision: 2})
+    expect(fields.amount.hint).toBeUndefined()
+    expect(fields.code.hint).toEqual('Exactly 3 characters')
+    expect(fields.query.hint).toEqual('From 2 to 50 characters')
+    expect(fields.name.hint).toEqual('At least 1 character')
+    expect(fields.level.type).toEqual('options')
+    expect(fields.level.typeOptions).toBeUndefined()
+});
+
+test('arrays of enums as multiOptions', () => {
+    const status = {type: 'array', items: {type: 'string', enum: ['available', 'pending', 'sold']}}
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/pets': {
+                get: {
+                    operationId: 'FindPets',
+                    tags: ['Pet'],
+                    parameters: [
+                        {name: 'status', in: 'query', required: true, schema: status},
+                        {name: 'tags', in: 'query', required: true, explode: false, schema: status},
+                        {name: 'colors', in: 'query', required: true, style: 'pipeDelimited', schema: status},
+                        {name: 'X-Status', in: 'header', required: true, schema: status},
+                    ],
+                },
+                post: {
+                    operationId: 'CreatePet',
+                    tags: ['Pet'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['status', 'kinds'],
+                                    properties: {
+                                        status: {...status, example: ['sold']},
+                                        kinds: status,
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = (operation: string) => lodash.keyBy(
+        result.filter((p) => p.displayOptions?.show?.operation?.[0] === operation),
+        'name',
+    )
+    const find = fields('Find Pets')
+    expect(lodash.omit(find.status, 'displayOptions')).toEqual({
+        displayName: 'Status',
+        name: 'status',
+        type: 'multiOptions',
+        required: true,
+        default: [],
+        options: [
+            {name: 'Available', value: 'available'},
+            {name: 'Pending', value: 'pending'},
+            {name: 'Sold', value: 'sold'},
+        ],
+        routing: {
+            send: {
+                type: 'query',
+                property: 'status',
+                value: '={{ $value }}',
+                propertyInDotNotation: false,
+            },
+        },
+    })
+    expect(find.status.default).toStrictEqual([])
+    expect(find.tags.routing!!.send!!.value).toEqual('={{ $value.join(",") }}')
+    expect(find.colors.routing!!.send!!.value).toEqual('={{ $value.join("|") }}')
+    expect(find['X-Status'].routing!!.request!!.headers).toEqual({'X-Status': '={{ $value.join(",") }}'})
+
+    const create = fields('Create Pet')
+    expect(create.status.type).toEqual('multiOptions')
+    expect(create.status.default).toEqual(['sold'])
+    expect(create.status.routing!!.send!!.value).toEqual('={{ $value }}')
+    expect(create.kinds.default).toStrictEqual([])
+});
+
+test('readOnly properties are not sent', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/users': {
+                post: {
+                    operationId: 'CreateUser',
+                    tags: ['User'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {$ref: '#/components/schemas/User'},
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Id: {type: 'integer', readOnly: true},
+                User: {
+                    type: 'object',
+                    required: ['id', 'name'],
+                    properties: {
+                        id: {$ref: '#/components/schemas/Id'},
+                        name: {type: 'string'},
+                        password: {type: 'string', writeOnly: true},
+                        createdAt: {type: 'string', format: 'date-time', readOnly: true},
+                        status: {allOf: [{$ref: '#/components/schemas/Status'}, {readOnly: true}]},
+                        profile: {
+                            type: 'object',
+                            properties: {
+                                bio: {type: 'string'},
+                                updatedAt: {type: 'string', readOnly: true},
+                            },
+                        },
+                        phones: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    id: {$ref: '#/components/schemas/Id'},
+                                    number: {type: 'string'},
+                                },
+                            },
+                        },
+                    },
+                },
+                Status: {type: 'string', enum: ['active', 'blocked']},
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+        body: {depth: 1},
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const names = (fields: any[]) => fields.map((field) => field.name)
+
+    expect(names(result)).toEqual(['resource', 'operation', 'name', 'additionalFields'])
+    const options = lodash.keyBy(additionalFields.options as INodeProperties[], 'name')
+    expect(Object.keys(options)).toEqual(['password', 'profile', 'phones'])
+    expect(names(options.profile.options as INodeProperties[])).toEqual(['bio'])
+    expect(names((options.phones.options as any)[0].values)).toEqual(['number'])
+});
+
+test('nullable body properties can be set to null', () => {
+    const doc = {
+        openapi: '3.1.0',
+        info: {title: 'Users', version: '1.0.0'},
+        paths: {
+            '/users/{id}': {
+                patch: {
+                    operationId: 'UpdateUser',
+                    tags: ['User'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['name'],
+                                    properties: {
+                                        name: {type: 'string'},
+                                        nickname: {type: ['string', 'null']},
+                                        role: {type: ['string', 'null'], enum: ['admin', 'member', null]},
+                                        manager: {anyOf: [{$ref: '#/components/schemas/UserName'}, {type: 'null'}]},
+                                        profile: {
+                                            type: 'object',
+                                            properties: {
+                                                bio: {type: 'string', nullable: true},
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                UserName: {type: 'string'},
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+        body: {depth: 1},
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const options = lodash.keyBy(additionalFields.options as INodeProperties[], 'name')
+
+    expect(Object.keys(options)).toEqual([
+        'nickname', 'nickname_null', 'role', 'role_null', 'manager', 'manager_null', 'profile',
+    ])
+    expect(options.nickname_null).toEqual({
+        displayName: 'Set Nickname to Null',
+        name: 'nickname_null',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to send null as Nickname',
+        routing: {
+            send: {
+                property: 'nickname',
+                propertyInDotNotation: false,
+                type: 'body',
+                value: '={{ $value ? null : undefined }}',
+            },
+        },
+    })
+    expect(options.role.options).toEqual([
+        {name: 'Admin', value: 'admin'},
+        {name: 'Member', value: 'member'},
+    ])
+    expect(options.role.default).toEqual('admin')
+    // OpenAPI 3.1 nullable reference
+    expect(options.manager.type).toEqual('string')
+    expect(options.manager_null.routing!!.send!!.property).toEqual('manager')
+
+    const profile = options.profile.options as INodeProperties[]
+    expect(profile.map((field) => field.name)).toEqual(['bio', 'bio_null'])
+    expect(profile[1].routing!!.send).toEqual({
+        property: 'profile.bio',
+        propertyInDotNotation: true,
+        type: 'body',
+        value: '={{ $value ? null : undefined }}',
+    })
+});
+
+test('additionalProperties maps as key/value pairs', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Orders', version: '1.0.0'},
+        paths: {
+            '/orders': {
+                post: {
+                    operationId: 'CreateOrder',
+                    tags: ['Order'],
+                    parameters: [
+                        {
+                            name: 'filter',
+                            in: 'query',
+                            schema: {type: 'object', additionalProperties: {type: 'string'}},
+                        },
+                        {
+                            name: 'weights',
+                            in: 'query',
+                            explode: false,
+                            schema: {type: 'object', additionalProperties: {type: 'number'}},
+                        },
+                    ],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        metadata: {
+                                            type: 'object',
+                                            description: 'Custom data',
+                                            additionalProperties: {type: 'string'},
+                                            example: {source: 'web'},
+                                        },
+                                        settings: {
+                                            type: 'object',
+                                            additionalProperties: {type: 'object'},
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const options = lodash.keyBy(additionalFields.options as INodeProperties[], 'name')
+
+    expect(options.metadata).toEqual({
+        displayName: 'Metadata',
+        name: 'metadata',
+        type: 'fixedCollection',
+        description: 'Custom data',
+        placeholder: 'Add Pair',
+        default: {pairs: [{key: 'source', value: 'web'}]},
+        typeOptions: {multipleValues: true},
+        options: [
+            {
+                name: 'pairs',
+                displayName: 'Pairs',
+                values: [
+                    {displayName: 'Key', name: 'key', type: 'string', default: ''},
+                    {displayName: 'Value', name: 'value', type: 'string'},
+                ],
+            },
+        ],
+        routing: {
+            send: {
+                property: 'metadata',
+                propertyInDotNotation: false,
+                type: 'body',
+                value: '={{ Object.fromEntries(($value.pairs || []).map((pair) => [pair.key, pair.value])) }}',
+            },
+        },
+    })
+    // Nested objects in values stay JSON
+    expect(options.settings.type).toEqual('json')
+
+    expect(options.filter.type).toEqual('fixedCollection')
+    expect(options.filter.routing).toEqual({
+        request: {
+            qs: '={{ Object.fromEntries(($value.pairs || []).map((pair) => [pair.key, pair.value])) }}',
+        },
+    })
+    expect((options.weights.options as any)[0].values[1].type).toEqual('number')
+    expect(options.weights.routing).toEqual({
+        send: {
+            type: 'query',
+            property: 'weights',
+            value: '={{ Object.entries(Object.fromEntries(($value.pairs || []).map((pair) => [pair.key, pair.value]))).flat().join(",") }}',
+            propertyInDotNotation: false,
+        },
+    })
+});
+
+test('allOf members are merged deeply', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Pets', version: '1.0.0'},
+        paths: {
+            '/pets': {
+                post: {
+                    operationId: 'CreatePet',
+                    tags: ['Pet'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {$ref: '#/components/schemas/Dog'},
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Pet: {
+                    type: 'object',
+                    required: ['name'],
+                    properties: {
+                        name: {type: 'string', example: 'Rex'},
+                        age: {type: 'integer', minimum: 0},
+                    },
+                },
+                Dog: {
+                    allOf: [
+                        {$ref: '#/components/schemas/Pet'},
+                        {
+                            type: 'object',
+                            required: ['breed'],
+                            properties: {
+                                breed: {type: 'string', example: 'Beagle'},
+                            },
+                        },
+                    ],
+                    required: ['age'],
+                    properties: {
+                        age: {type: 'integer', maximum: 30},
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = lodash.keyBy(result, 'name')
+
+    expect(Object.keys(fields)).toEqual(['resource', 'operation', 'name', 'age', 'breed'])
+    expect(fields.name).toEqual(expect.objectContaining({required: true, default: 'Rex'}))
+    expect(fields.breed).toEqual(expect.objectContaining({required: true, default: 'Beagle'}))
+    expect(fields.age).toEqual(expect.objectContaining({
+        required: true,
+        type: 'number',
+        typeOptions: {minValue: 0, maxValue: 30, numberPrecision: 0},
+    }))
+});
+
+test('allOf base reused inside its own extension', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Pets', version: '1.0.0'},
+        paths: {
+            '/dogs': {
+                post: {
+                    operationId: 'CreateDog',
+                    tags: ['Dog'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        dog: {$ref: '#/components/schemas/Dog'},
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Pet: {
+                    type: 'object',
+                    properties: {
+                        name: {type: 'string', example: 'Rex'},
+                        age: {type: 'integer', example: 7},
+                    },
+                },
+                Dog: {
+                    allOf: [
+                        {$ref: '#/components/schemas/Pet'},
+                        {
+                            type: 'object',
+                            properties: {
+                                mother: {$ref: '#/components/schemas/Pet'},
+                            },
+                        },
+                    ],
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const options = lodash.keyBy(additionalFields.options as INodeProperties[], 'name')
+
+    // Pet is not up the tree for "mother", only Dog is
+    expect(JSON.parse(options.dog.default as string)).toEqual({
+        name: 'Rex',
+        age: 7,
+        mother: {name: 'Rex', age: 7},
+    })
+});
+
+test('readOnly properties are not in JSON defaults', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Users', version: '1.0.0'},
+        paths: {
+            '/users': {
+                post: {
+                    operationId: 'CreateUser',
+                    tags: ['User'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        profile: {
+                                            type: 'object',
+                                            properties: {
+                                                bio: {type: 'string', example: 'Hi'},
+                                                updatedAt: {type: 'string', readOnly: true, example: '2024-01-01'},
+                                            },
+                                        },
+                                        mother: {$ref: '#/components/schemas/Dog'},
+                                        settings: {
+                                            type: 'object',
+                                            properties: {
+                                                id: {$ref: '#/components/schemas/Id'},
+                                                theme: {type: 'string'},
+                                            },
+                                            example: {id: 1, theme: 'dark'},
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                Id: {type: 'integer', readOnly: true, example: 7},
+                Pet: {
+                    type: 'object',
+                    properties: {
+                        id: {$ref: '#/components/schemas/Id'},
+                        name: {type: 'string', example: 'Rex'},
+                    },
+                },
+                Dog: {
+                    allOf: [
+                        {$ref: '#/components/schemas/Pet'},
+                        {
+                            type: 'object',
+                            properties: {
+                                breed: {type: 'string', example: 'Beagle'},
+                            },
+                        },
+                    ],
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const options = lodash.keyBy(additionalFields.options as INodeProperties[], 'name')
+
+    expect(JSON.parse(options.profile.default as string)).toEqual({bio: 'Hi'})
+    expect(JSON.parse(options.mother.default as string)).toEqual({name: 'Rex', breed: 'Beagle'})
+    // Explicit examples too
+    expect(JSON.parse(options.settings.default as string)).toEqual({theme: 'dark'})
+});
+
+test('swagger 2.0 path-level formData merged with operation ones', () => {
+    const doc = {
+        swagger: '2.0',
+        info: {title: 'Files', version: '1.0'},
+        host: 'api.example.com',
+        consumes: ['multipart/form-data'],
+        paths: {
+            '/files': {
+                parameters: [
+                    {name: 'token', in: 'formData', type: 'string', required: true},
+                    {name: 'folder', in: 'formData', type: 'string'},
+                ],
+                post: {
+                    operationId: 'UploadFile',
+                    tags: ['File'],
+                    parameters: [
+                        {name: 'file', in: 'formData', type: 'file', required: true},
+                        {name: 'folder', in: 'formData', type: 'string', required: true, description: 'Target folder'},
+                    ],
+                    responses: {'200': {description: 'OK'}},
+                },
+            },
+        },
+    };
+    const converted: any = new Swagger2Converter(doc).convert()
+    const schema = converted.paths['/files'].post.requestBody.content['multipart/form-data'].schema
+    expect(schema).toEqual({
+        type: 'object',
+        properties: {
+            file: {type: 'string', format: 'binary'},
+            folder: {type: 'string', description: 'Target folder'},
+            token: {type: 'string'},
+        },
+        required: ['file', 'folder', 'token'],
+    })
+});
+
+test('variant properties with the same name', () => {
+    const doc = {
+        openapi: '3.0.0',
+        info: {title: 'Payments', version: '1.0.0'},
+        paths: {
+            '/payments': {
+                post: {
+                    operationId: 'CreatePayment',
+                    tags: ['Payment'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    oneOf: [
+                                        {
+                                            title: 'Card',
+                                            type: 'object',
+                                            properties: {
+                                                amount: {type: 'number'},
+                                                currency: {type: 'string'},
+                                            },
+                                        },
+                                        {
+                                            title: 'Bank',
+                                            type: 'object',
+                                            properties: {
+                                                amount: {type: 'string', format: 'date-time'},
+                                                currency: {type: 'string'},
+                                                variant: {type: 'string'},
+                                            },
+                                        },
+                                    ],
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    // "variant" is a property of Bank
+    const selector = result.find((field) => field.displayName === 'Type')!!
+    expect(selector.name).toEqual('variant1')
+
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const options = additionalFields.options as INodeProperties[]
+    expect(options.map((option) => option.name)).toEqual(['amount_card', 'currency', 'amount_bank', 'variant'])
+    const byName = lodash.keyBy(options, 'name')
+    expect(byName.amount_card.type).toEqual('number')
+    expect(byName.amount_card.displayOptions).toEqual({show: {'/variant1': ['Card']}})
+    expect(byName.amount_bank.type).toEqual('dateTime')
+    expect(byName.amount_bank.routing!!.send!!.property).toEqual('amount')
+    // The same property is one field for both variants
+    expect(byName.currency.displayOptions).toEqual({show: {'/variant1': ['Card', 'Bank']}})
+});
+
+test('request body array of enums', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/users/{id}/roles': {
+                put: {
+                    operationId: 'SetRoles',
+                    tags: ['User'],
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: {type: 'array', items: {type: 'string', enum: ['admin', 'editor']}},
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const body = result.find((field) => field.name === 'body')!!
+    expect(lodash.omit(body, 'displayOptions')).toEqual({
+        displayName: 'Body',
+        name: 'body',
+        type: 'multiOptions',
+        required: true,
+        default: [],
+        options: [
+            {name: 'Admin', value: 'admin'},
+            {name: 'Editor', value: 'editor'},
+        ],
+        routing: {
+            request: {
+                body: '={{ $value }}',
+            },
+        },
+    })
+});
+
+test('converted formats in fixedCollection sub-fields are plain strings', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/messages': {
+                post: {
+                    operationId: 'SendMessage',
+                    tags: ['Message'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['attachments', 'dates'],
+                                    properties: {
+                                        attachments: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    content: {type: 'string', format: 'byte'},
+                                                    sentAt: {type: 'string', format: 'date'},
+                                                    email: {type: 'string', format: 'email'},
+                                                },
+                                            },
+                                        },
+                                        dates: {
+                                            type: 'object',
+                                            additionalProperties: {type: 'string', format: 'date-time'},
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const fields = lodash.keyBy(result, 'name')
+    const values = (field: INodeProperties) => lodash.keyBy((field.options!![0] as any).values, 'name')
+
+    // Sent as they are - no binary property name or n8n date
+    const attachments = values(fields.attachments)
+    expect(attachments.content).toEqual({displayName: 'Content', name: 'content', type: 'string'})
+    expect(attachments.sentAt).toEqual({displayName: 'Sent At', name: 'sentAt', type: 'string'})
+    expect(attachments.email.placeholder).toEqual('name@email.com')
+    expect(values(fields.dates).value).toEqual({displayName: 'Value', name: 'value', type: 'string'})
+});
+
+test('allOf members nullable is intersected', () => {
+    const doc = {
+        openapi: '3.0.0',
+        paths: {
+            '/users/{id}': {
+                patch: {
+                    operationId: 'UpdateUser',
+                    tags: ['User'],
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['name', 'nickname', 'manager', 'team'],
+                                    properties: {
+                                        name: {allOf: [{type: 'string'}, {nullable: true}]},
+                                        nickname: {allOf: [{type: 'string', nullable: true}, {nullable: true}]},
+                                        // OpenAPI 3.0 nullable reference
+                                        manager: {allOf: [{$ref: '#/components/schemas/UserName'}], nullable: true},
+                                        team: {allOf: [{$ref: '#/components/schemas/TeamName'}], description: 'Team'},
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                UserName: {type: 'string'},
+                TeamName: {type: 'string', nullable: true},
+            },
+        },
+    };
+    const parser = new N8NPropertiesBuilder(doc, {
+        logger: {info: jest.fn(), warn: jest.fn()} as any,
+        OperationsCollector: BaseOperationsCollector,
+    });
+    const result = parser.build()
+    const additionalFields = result.find((field) => field.name === 'additionalFields')!!
+    const nullFields = (additionalFields.options as INodeProperties[]).map((field) => field.name)
+    expect(nullFields).toEqual(['nickname_null', 'manager_null', 'team_null'])
+});
@@ -1,4 +1,4 @@
-import {INodeProperties} from 'n8n-workflow';
+import {DeclarativeRestApiSettings, INodeProperties} from 'n8n-workflow';
 import {OpenAPIV3} from 'openapi-types';
 import pino from 'pino';
 import {OpenAPIWalker} from "./openapi/OpenAPIWalker";
@@ -7,6 +7,10 @@ import {BaseOperationsCollector, OperationsCollector as OperationsCollectorImpl}
 import * as lodash from "lodash";
 import {DefaultOperationParser, IOperationParser} from "./OperationParser";
 import {DefaultResourceParser, IResourceParser} from "./ResourceParser";
+import {isSwagger2, Swagger2Converter} from "./openapi/Swagger2";
+import {N8NRequestDefaults, ServerConfig} from "./n8n/ServerToRequestDefaults";
+import {DefaultCredentialParser, ICredentialParser} from "./CredentialParser";
+import {BodyConfig} from "./n8n/SchemaToINodeProperties";
 
 export interface Override {
     find: any;
@@ -19,6 +23,9 @@ export interface N8NPropertiesBuilderConfig {
     ResourcePropertiesCollector?: typeof ResourcePropertiesCollector
     operation?: IOperationParser,
     resource?: IResourceParser,
+    credential?: ICredentialParser,
+    server?: ServerConfig,
+    body?: BodyConfig,
 }
 
 /**
@@ -27,27 +34,36 @@ export interface N8NPropertiesBuilderConfig {
  * It uses a walker to traverse the OpenAPI document and collect the necessary information.
  * The collected information is then used to build the n8n node properties.
  * The class uses a set of parsers to parse the OpenAPI document and build the n8n node properties.
+ * Swagger 2.0 documents are upgraded to OpenAPI v3 before walking.
  *
  */
 export class N8NPropertiesBuilder {
     private readonly doc: OpenAPIV3.Document;
     private readonly logger: pino.Logger
     private readonly walker: OpenAPIWalker;
+    private readonly requestDefaults: N8NRequestDefaults;
+    private readonly server?: ServerConfig;
+    private readonly body?: BodyConfig;
 
     // DI
     private readonly operationParser: IOperationParser;
     private readonly resourceParser: IResourceParser;
+    private readonly credentialParser: ICredentialParser;
     private readonly OperationsCollector: typeof BaseOperationsCollector;
     private readonly ResourcePropertiesCollector: typeof ResourcePropertiesCollector;
 
     constructor(doc: any, config?: N8NPropertiesBuilderConfig) {
-        this.doc = doc
+        this.doc = isSwagger2(doc) ? new Swagger2Converter(doc).convert() : doc
         this.logger = config?.logger || pino({transport: {target: 'pino-pretty'}})
         this.walker = new OpenAPIWalker(this.doc)
+        this.server = config?.server
+        this.body = config?.body
+        this.requestDefaults = new N8NRequestDefaults(this.doc, this.server)
 
         // DI
         this.operationParser = config?.operation || new DefaultOperationParser()
         this.resourceParser = config?.resource || new DefaultResourceParser()
+        this.credentialParser = config?.credential || new DefaultCredentialParser()
         this.OperationsCollector = config?.OperationsCollector ? config.OperationsCollector : OperationsCollectorImpl
         this.ResourcePropertiesCollector = config?.ResourcePropertiesCollector ? config.ResourcePropertiesCollector : ResourcePropertiesCollector
     }
@@ -62,6 +78,7 @@ export class N8NPropertiesBuilder {
             this.operationParser,
             this.resourceParser,
             this.logger,
+            {server: this.server, credential: this.credentialParser, body: this.body},
         )
         this.walker.walk(operationsCollector)
         const operations = operationsCollector.operations
@@ -71,6 +88,21 @@ export class N8NPropertiesBuilder {
         return this.update(properties, overrides)
     }
 
+    /**
+     * Node "requestDefaults" with base URL from "servers"
+     */
+    buildRequestDefaults(): DeclarativeRestApiSettings.HttpRequestOptions {
+        return this.requestDefaults.requestDefaults()
+    }
+
+    /**
+     * Fields for server variables used in the base URL,
+     * add them to credentials or node properties (see "server.variables" config)
+     */
+    buildServerFields(): INodeProperties[] {
+        return this.requestDefaults.fields()
+    }
+
     private update(fields: any[], patterns: Override[]) {
         for (const pattern of patterns) {
             for (const element of lodash.filter(fields, pattern.find)) {
@@ -2,17 +2,28 @@ import {OpenAPIVisitor, OperationContext} from "./openapi/OpenAPIVisitor";
 import * as lodash from "lodash";
 import pino from "pino";
 import {OpenAPIV3} from "openapi-types";
-import {N8NINodeProperties} from "./n8n/SchemaToINodeProperties";
+import {BodyConfig, N8NINodeProperties} from "./n8n/SchemaToINodeProperties";
 import {IOperationParser} from "./OperationParser";
 import {OptionsByResourceMap} from "./n8n/OptionsByResourceMap";
-import {INodeProperties} from "n8n-workflow";
+import {DeclarativeRestApiSettings, INodeProperties} from "n8n-workflow";
 import {replacePathVarsToParameter} from "./n8n/utils";
 import {IResourceParser} from "./ResourceParser";
+import {N8NRequestDefaults, ServerConfig} from "./n8n/ServerToRequestDefaults";
+import {DefaultCredentialParser, ICredentialParser} from "./CredentialParser";
+import {N8NAuthentication, NONE} from "./n8n/SecurityToAuthentication";
+
+export interface OperationsCollectorConfig {
+    server?: ServerConfig;
+    credential?: ICredentialParser;
+    body?: BodyConfig;
+}
 
 export class BaseOperationsCollector implements OpenAPIVisitor {
     public readonly _fields: INodeProperties[]
     private optionsByResource: OptionsByResourceMap = new OptionsByResourceMap()
     private n8nNodeProperties: N8NINodeProperties;
+    private requestDefaults: N8NRequestDefaults;
+    private authentication: N8NAuthentication;
 
     // Log context
     private bindings: any
@@ -21,10 +32,13 @@ export class BaseOperationsCollector implements OpenAPIVisitor {
         doc: any,
         protected operationParser: IOperationParser,
         protected resourceParser: IResourceParser,
-        protected logger: pino.Logger
+        protected logger: pino.Logger,
+        config: OperationsCollectorConfig = {},
     ) {
         this._fields = []
-        this.n8nNodeProperties = new N8NINodeProperties(doc)
+        this.n8nNodeProperties = new N8NINodeProperties(doc, config.body)
+        this.requestDefaults = new N8NRequestDefaults(doc, config.server)
+        this.authentication = new N8NAuthentication(doc, config.credential || new DefaultCredentialParser())
     }
 
     get operations(): INodeProperties[] {
@@ -81,7 +95,7 @@ export class BaseOperationsCollector implements OpenAPIVisitor {
             return
         }
         const {option, fields: operationFields} = this.parseOperation(operation, context);
-        const resources = operation.tags!!.map((tag: string) => this.resourceParser.value({name: tag}))
+        const resources = context.tags.map((tag: string) => this.resourceParser.value({name: tag}))
         for (const resourceName of resources) {
             const fields = lodash.cloneDeep(operationFields)
             const operationName = option.name;
@@ -96,7 +110,7 @@ export class BaseOperationsCollector implements OpenAPIVisitor {
      */
     parseFields(operation: OpenAPIV3.OperationObject, context: OperationContext) {
         const fields = [];
-        const parameterFields = this.n8nNodeProperties.fromParameters(operation.parameters)
+        const parameterFields = this.n8nNodeProperties.fromParameters(context.parameters)
         fields.push(...parameterFields);
 
         try {
@@ -163,7 +177,8 @@ export class BaseOperationsCollector implements OpenAPIVisitor {
             },
         }
         fields.forEach((field) => {
-            field.displayOptions = displayOptions
+            // Keep field own conditions (e.g. selected variant)
+            field.displayOptions = lodash.merge({}, field.displayOptions, displayOptions)
         })
     }
 
@@ -180,17 +195,87 @@ export class BaseOperationsCollector implements OpenAPIVisitor {
                 request: {
                     method: method.toUpperCase(),
                     url: `=${replacePathVarsToParameter(uri)}`,
-                },
+                } as DeclarativeRestApiSettings.HttpRequestOptions,
             },
         };
+        const baseURL = this.parseBaseURL(operation, context)
+        if (baseURL) {
+            option.routing.request.baseURL = baseURL
+        }
+        const authentication = this.parseAuthentication(operation, context)
+        const withoutCredentials = this.parseWithoutCredentials(operation, context, authentication)
+        if (withoutCredentials.baseURL) {
+            option.routing.request.baseURL = withoutCredentials.baseURL
+        }
         const fields = this.parseFields(operation, context);
-
+        fields.unshift(...authentication, ...withoutCredentials.fields);
 
         return {
             option: option,
             fields: fields,
         };
     }
+
+    /**
+     * "authentication" field selecting the credentials required by operation "security"
+     */
+    protected parseAuthentication(operation: OpenAPIV3.OperationObject, context: OperationContext): INodeProperties[] {
+        return this.authentication.fields(operation.security)
+    }
+
+    /**
+     * Operation-level or path-level "servers" override the node base URL
+     */
+    protected parseBaseURL(operation: OpenAPIV3.OperationObject, context: OperationContext): string | undefined {
+        const server = this.operationServer(operation, context)
+        if (!server) {
+            return undefined
+        }
+        return this.requestDefaults.overrideBaseURL(server)
+    }
+
+    /**
+     * Operations sent without credentials can't reference server variables in credentials:
+     * - "security: []" - base URL with the variables default values
+     * - optional security - a notice shown when "None" is selected
+     * - relative servers - a notice, base url is known from credentials only
+     */
+    protected parseWithoutCredentials(
+        operation: OpenAPIV3.OperationObject,
+        context: OperationContext,
+        authentication: INodeProperties[],
+    ): { baseURL?: string, fields: INodeProperties[] } {
+        const field = authentication.find((field) => field.name === 'authentication')
+        const server = this.operationServer(operation, context)
+        // Unsupported security has its own notice
+        const unsupported = authentication.some((field) => field.type === 'notice')
+        if (!field || unsupported || !this.requestDefaults.fromCredentials(server)) {
+            return {fields: []}
+        }
+        if (field.type === 'hidden' && field.default === NONE) {
+            const baseURL = this.requestDefaults.defaultBaseURL(server)
+            if (baseURL) {
+                return {baseURL: baseURL, fields: []}
+            }
+        } else if (!field.options?.some((option: any) => option.value === NONE)) {
+            return {fields: []}
+        }
+        const notice: INodeProperties = {
+            displayName: 'Base URL is set in credentials, the operation can not be sent without them',
+            name: 'operation',
+            type: 'notice',
+            default: '',
+        }
+        if (field.type !== 'hidden') {
+            notice.displayOptions = {show: {authentication: [NONE]}}
+        }
+        return {fields: [notice]}
+    }
+
+    private operationServer(operation: OpenAPIV3.OperationObject, context: OperationContext): OpenAPIV3.ServerObject | undefined {
+        const servers = operation.servers?.length ? operation.servers : context.path.servers
+        return servers?.[0]
+    }
 }
 
 export class OperationsCollector extends BaseOperationsCollector {
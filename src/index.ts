@@ -1,11 +1,22 @@
 // export
-import {OpenAPIVisitor, OperationContext} from "./openapi/OpenAPIVisitor";
+import {NodeContext, OpenAPIVisitor, OperationContext, PathItemContext, ResponseContext} from "./openapi/OpenAPIVisitor";
 import {OpenAPIWalker} from "./openapi/OpenAPIWalker";
 import {N8NPropertiesBuilder, N8NPropertiesBuilderConfig, Override} from "./N8NPropertiesBuilder";
 import {BaseOperationsCollector, OperationsCollector} from "./OperationsCollector";
 import {DefaultOperationParser, IOperationParser} from "./OperationParser";
 import {DefaultResourceParser, IResourceParser} from "./ResourceParser";
 import {ResourceCollector} from "./ResourceCollector";
+import {isSwagger2, Swagger2Converter} from "./openapi/Swagger2";
+import {loadSpec, parseSpec} from "./openapi/SpecLoader";
+import {N8NRequestDefaults, ServerConfig, ServerVariablesLocation} from "./n8n/ServerToRequestDefaults";
+import {bundleSpec, FileSystemReader, IFileReader, SpecBundler} from "./openapi/SpecBundler";
+import {N8NCredentialsBuilder, N8NCredentialsBuilderConfig} from "./N8NCredentialsBuilder";
+import {CredentialContext, DefaultCredentialParser, ICredentialParser} from "./CredentialParser";
+import {CredentialsCollector, CredentialsCollectorConfig} from "./CredentialsCollector";
+import {N8NAuthentication} from "./n8n/SecurityToAuthentication";
+import {BodyConfig} from "./n8n/SchemaToINodeProperties";
+import {OperationsCollectorConfig} from "./OperationsCollector";
+import {ExampleDirection, SchemaExample} from "./openapi/SchemaExample";
 
 
 export {
@@ -14,6 +25,9 @@ export {
     OpenAPIVisitor,
     OpenAPIWalker,
     OperationContext,
+    PathItemContext,
+    NodeContext,
+    ResponseContext,
     IOperationParser,
     DefaultOperationParser,
     BaseOperationsCollector,
@@ -22,4 +36,27 @@ export {
     DefaultResourceParser,
     Override,
     ResourceCollector,
+    Swagger2Converter,
+    isSwagger2,
+    loadSpec,
+    parseSpec,
+    bundleSpec,
+    SpecBundler,
+    IFileReader,
+    FileSystemReader,
+    N8NRequestDefaults,
+    ServerConfig,
+    ServerVariablesLocation,
+    N8NCredentialsBuilder,
+    N8NCredentialsBuilderConfig,
+    ICredentialParser,
+    DefaultCredentialParser,
+    CredentialContext,
+    CredentialsCollector,
+    CredentialsCollectorConfig,
+    N8NAuthentication,
+    BodyConfig,
+    OperationsCollectorConfig,
+    SchemaExample,
+    ExampleDirection,
 }
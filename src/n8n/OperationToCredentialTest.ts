@@ -0,0 +1,156 @@
+import {OpenAPIV3} from "openapi-types";
+import {
+    IAuthenticateRuleResponseCode,
+    IAuthenticateRuleResponseSuccessBody,
+    ICredentialTestRequest,
+    IHttpRequestMethods,
+} from "n8n-workflow";
+import {OperationContext} from "../openapi/OpenAPIVisitor";
+import {RefResolver} from "../openapi/RefResolver";
+import {SchemaExample} from "../openapi/SchemaExample";
+import {N8NRequestDefaults, ServerConfig} from "./ServerToRequestDefaults";
+
+/**
+ * Vendor extension to mark the operation used to test credentials
+ */
+export const CREDENTIAL_TEST_EXTENSION = 'x-n8n-credential-test'
+
+/**
+ * 2xx statuses, n8n fails the test on the rest already
+ */
+const SUCCESS_STATUSES = [200, 201, 202, 203, 204, 205, 206, 207, 208, 226]
+
+/**
+ * Builds credentials "test" request from an operation
+ */
+export class N8NCredentialTest {
+    private readonly refResolver: RefResolver
+    private readonly requestDefaults: N8NRequestDefaults
+    private readonly schemaExample: SchemaExample
+
+    constructor(doc: OpenAPIV3.Document, server?: ServerConfig) {
+        this.refResolver = new RefResolver(doc)
+        this.requestDefaults = new N8NRequestDefaults(doc, server)
+        this.schemaExample = new SchemaExample(doc, 'request')
+    }
+
+    /**
+     * Cheap operation to test credentials with - GET without path and required parameters
+     * that responds with 2xx status
+     */
+    isCandidate(operation: OpenAPIV3.OperationObject, context: OperationContext): boolean {
+        if (context.method !== OpenAPIV3.HttpMethods.GET) {
+            return false
+        }
+        if (context.pattern.includes('{')) {
+            return false
+        }
+        const parameters = context.parameters.map((parameter) =>
+            this.refResolver.resolve<OpenAPIV3.ParameterObject>(parameter)
+        )
+        if (parameters.some((parameter) => parameter.required)) {
+            return false
+        }
+        return this.successStatus(operation) !== undefined
+    }
+
+    fromOperation(operation: OpenAPIV3.OperationObject, context: OperationContext): ICredentialTestRequest {
+        const servers = operation.servers?.length ? operation.servers : context.path.servers
+        const baseURL = servers?.length ? this.requestDefaults.overrideBaseURL(servers[0]) : undefined
+        const test: ICredentialTestRequest = {
+            request: {
+                baseURL: baseURL || this.requestDefaults.requestDefaults().baseURL,
+                url: this.url(context)!!,
+                method: context.method.toUpperCase() as IHttpRequestMethods,
+            },
+        }
+        const rules: (IAuthenticateRuleResponseCode | IAuthenticateRuleResponseSuccessBody)[] = this.rules(operation)
+        if (this.successStatus(operation) !== undefined) {
+            // Status code is in the response data only with the full response
+            test.request.returnFullResponse = true
+            rules.push(...this.successRules(operation))
+        }
+        if (rules.length > 0) {
+            // n8n checks the rule type, response code rules apply to failed requests, body ones to succeeded
+            test.rules = rules as ICredentialTestRequest['rules']
+        }
+        return test
+    }
+
+    /**
+     * Operation path with path parameters filled from their examples or defaults,
+     * undefined if a parameter has neither
+     */
+    url(context: OperationContext): string | undefined {
+        const parameters = context.parameters.map((parameter) =>
+            this.refResolver.resolve<OpenAPIV3.ParameterObject>(parameter)
+        )
+        let missing = false
+        const url = context.pattern.replace(/{([^}]+)}/g, (match, name) => {
+            const parameter = parameters.find((p) => p.in === 'path' && p.name === name)
+            const value = parameter ? this.parameterExample(parameter) : undefined
+            if (value === undefined || value === null || typeof value === 'object') {
+                missing = true
+                return match
+            }
+            return encodeURIComponent(`${value}`)
+        })
+        return missing ? undefined : url
+    }
+
+    private parameterExample(parameter: OpenAPIV3.ParameterObject): any {
+        if (parameter.example !== undefined) {
+            return parameter.example
+        }
+        const example = Object.values(parameter.examples || {})[0]
+        if (example) {
+            return this.refResolver.resolve<OpenAPIV3.ExampleObject>(example).value
+        }
+        return parameter.schema ? this.schemaExample.extractExample(parameter.schema) : undefined
+    }
+
+    /**
+     * First 2xx status declared in operation responses
+     */
+    successStatus(operation: OpenAPIV3.OperationObject): number | undefined {
+        const status = Object.keys(operation.responses || {}).find((status) => /^2\d\d$/.test(status))
+        return status ? Number(status) : undefined
+    }
+
+    /**
+     * Other 2xx statuses than the operation declares fail the test too
+     */
+    private successRules(operation: OpenAPIV3.OperationObject): IAuthenticateRuleResponseSuccessBody[] {
+        const declared = Object.keys(operation.responses || {}).map(Number)
+        const expected = this.successStatus(operation)
+        return SUCCESS_STATUSES
+            .filter((status) => !declared.includes(status))
+            .map((status) => ({
+                type: 'responseSuccessBody',
+                properties: {
+                    key: 'statusCode',
+                    value: status,
+                    message: `Unexpected ${status} response, expected ${expected}`,
+                },
+            }))
+    }
+
+    /**
+     * n8n fails the test on any non-2xx status, the rules give documented 401 and 403 a better message
+     */
+    private rules(operation: OpenAPIV3.OperationObject): IAuthenticateRuleResponseCode[] {
+        const rules: IAuthenticateRuleResponseCode[] = []
+        for (const status of ['401', '403']) {
+            const response = operation.responses?.[status]
+            if (!response) {
+                continue
+            }
+            const resolved = this.refResolver.resolve<OpenAPIV3.ResponseObject>(response)
+            rules.push({
+                type: 'responseCode',
+                properties: {value: Number(status), message: resolved.description || 'Invalid credentials'},
+            })
+        }
+        return rules
+    }
+}
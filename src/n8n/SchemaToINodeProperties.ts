@@ -1,11 +1,36 @@
-import { OpenAPIV3 } from "openapi-types";
-import { INodeProperties, NodePropertyTypes } from "n8n-workflow";
+import { OpenAPIV3, OpenAPIV3_1 } from "openapi-types";
+import {
+    IExecuteSingleFunctions,
+    IHttpRequestOptions,
+    INodeParameters,
+    INodeProperties,
+    INodePropertyOptions,
+    NodePropertyTypes,
+    PreSendAction,
+} from "n8n-workflow";
 import { RefResolver } from "../openapi/RefResolver";
 import * as lodash from "lodash";
 import { SchemaExample } from "../openapi/SchemaExample";
+import { isNullable, isNullSchema, itemsSchema, schemaType } from "../openapi/utils";
+import { parseJsonPointer } from "../openapi/JsonPointer";
 
 type Schema = OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject;
-type FromSchemaNodeProperty = Pick<INodeProperties, 'type' | 'description' | 'options' | 'default'>
+type FromSchemaNodeProperty = Pick<INodeProperties, 'type' | 'description' | 'options' | 'default' | 'typeOptions' | 'placeholder' | 'hint'>
+
+/**
+ * Name of the variant selector field for oneOf / anyOf without discriminator
+ */
+const VARIANT_FIELD = 'variant'
+
+/**
+ * Object from key/value pairs of the "fixedCollection" field (see fromMap)
+ */
+const MAP_VALUE = 'Object.fromEntries(($value.pairs || []).map((pair) => [pair.key, pair.value]))'
+
+/**
+ * Formats converted by field routing (see sendValue and binaryPreSend)
+ */
+const CONVERTED_FORMATS = ['date-time', 'date', 'byte']
 
 function combine(...sources: Partial<INodeProperties>[]): INodeProperties {
     const obj = lodash.defaults({}, ...sources)
@@ -22,6 +47,38 @@ function combine(...sources: Partial<INodeProperties>[]): INodeProperties {
     return obj
 }
 
+/**
+ * 0.01 => 2, 5 => 0, 1e-7 => 7
+ */
+function decimals(value: number): number {
+    const [mantissa, exponent] = `${value}`.split('e')
+    const fraction = mantissa.split('.')[1] || ''
+    return Math.max(0, fraction.length - Number(exponent || 0))
+}
+
+/**
+ * Replaces the binary property name at the path of the request with base64 content of the property.
+ * The content is read with n8n helpers - $binary has it only with in-memory binary data mode,
+ * filesystem and S3 modes keep just an id there.
+ * @param path - path in the location, empty for the whole body
+ */
+function binaryToBase64(location: 'body' | 'qs' | 'headers', path: string[]): PreSendAction {
+    return async function (this: IExecuteSingleFunctions, requestOptions: IHttpRequestOptions) {
+        const options = requestOptions as any
+        const name = path.length > 0 ? lodash.get(options[location], path) : options[location]
+        if (typeof name !== 'string' || name === '') {
+            return requestOptions
+        }
+        const content = (await this.helpers.getBinaryDataBuffer(name)).toString('base64')
+        if (path.length > 0) {
+            lodash.set(options[location], path, content)
+        } else {
+            options[location] = content
+        }
+        return requestOptions
+    }
+}
+
 /**
  * in obj find key starts with regexp
  * Return first match VALUE of the key
@@ -31,25 +88,39 @@ function findKey(obj: any, regexp: RegExp): any | undefined {
     return key ? obj[key] : undefined
 }
 
+export interface BodyConfig {
+    /**
+     * How many levels of nested objects in request body become "collection" fields,
+     * 0 (default) - only top fields of the schema, nested objects are JSON strings
+     */
+    depth?: number;
+}
+
 /**
- * One level deep - meaning only top fields of the schema
+ * Top fields of the schema (and nested objects up to "depth" as collections)
  * The rest represent as JSON string
  */
 export class N8NINodeProperties {
     private refResolver: RefResolver;
     private schemaExample: SchemaExample;
+    private readonly config: Required<BodyConfig>;
 
-    constructor(doc: any) {
+    constructor(doc: any, config?: BodyConfig) {
         this.refResolver = new RefResolver(doc)
-        this.schemaExample = new SchemaExample(doc)
+        // Defaults are sent in requests, without server-owned properties
+        this.schemaExample = new SchemaExample(doc, 'request')
+        this.config = {
+            depth: config?.depth || 0,
+        }
     }
 
     fromSchema(schema: Schema): FromSchemaNodeProperty {
+        // Example is built from the original schema, so its own ref counts as visited in recursive schemas
+        let defaultValue = this.schemaExample.extractExample(schema)
         schema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(schema)
         let type: NodePropertyTypes;
-        let defaultValue = this.schemaExample.extractExample(schema)
 
-        switch (schema.type) {
+        switch (schemaType(schema)) {
             case 'boolean':
                 type = 'boolean';
                 if (defaultValue === undefined) {
@@ -58,6 +129,7 @@ export class N8NINodeProperties {
                 break;
             case 'string':
             case undefined:
+            default:
                 type = 'string';
                 // Don't set empty string as default unless there's an explicit example
                 break;
@@ -68,6 +140,15 @@ export class N8NINodeProperties {
                 }
                 break;
             case 'array':
+                if (this.enumItems(schema)) {
+                    // Pick allowed values instead of typing JSON
+                    type = 'multiOptions';
+                    // Items without example are undefined - select nothing rather than send them
+                    if (!Array.isArray(defaultValue) || defaultValue.some((item) => item === undefined)) {
+                        defaultValue = [];
+                    }
+                    break;
+                }
                 type = 'json';
                 if (defaultValue !== undefined) {
                     defaultValue = JSON.stringify(defaultValue, null, 2);
@@ -85,21 +166,187 @@ export class N8NINodeProperties {
             description: schema.description,
             default: defaultValue !== undefined ? defaultValue : undefined
         };
+        if (type === 'string') {
+            this.applyFormat(field, schema)
+        }
+        if (type === 'multiOptions') {
+            field.options = this.enumItems(schema)!!.enum!!.map((value: string) => {
+                return {
+                    name: lodash.startCase(value),
+                    value: value,
+                };
+            });
+        }
         
-        if (schema.enum && schema.enum.length > 0) {
+        // null is not an option, nullable properties get "Set ... to Null" field instead
+        const enumValues = schema.enum?.filter((value) => value !== null)
+        if (enumValues && enumValues.length > 0) {
             field.type = 'options';
-            field.options = schema.enum.map((value: string) => {
+            field.options = enumValues.map((value: string) => {
                 return {
                     name: lodash.startCase(value),
                     value: value,
                 };
             });
             // For enums, always set a default to the first option
-            field.default = field.default !== undefined ? field.default : schema.enum[0];
+            field.default = field.default !== undefined && field.default !== null ? field.default : enumValues[0];
+        }
+
+        // OpenAPI 3.1 "const" - the only possible value
+        const constValue = (schema as OpenAPIV3_1.SchemaObject).const;
+        if (constValue !== undefined && !lodash.isObject(constValue)) {
+            field.type = 'options';
+            field.options = [
+                {
+                    name: lodash.startCase(`${constValue}`),
+                    value: constValue,
+                },
+            ];
+            field.default = constValue;
+        }
+
+        if (field.type === 'number') {
+            this.applyNumberConstraints(field, schema)
+        } else if (field.type === 'string') {
+            this.applyLengthHint(field, schema)
         }
         return field;
     }
 
+    /**
+     * minimum, maximum (exclusive ones too) and multipleOf to n8n typeOptions
+     */
+    private applyNumberConstraints(field: FromSchemaNodeProperty, schema: OpenAPIV3.SchemaObject) {
+        const integer = schemaType(schema) === 'integer'
+        // Exclusive bound is the next allowed value - the next integer or multiple,
+        // any other number can be close to the bound, so it stays inclusive with a hint
+        const step = integer ? 1 : schema.multipleOf
+        const precision = integer ? 0 : decimals(schema.multipleOf || 0)
+        const inward = (bound: number, direction: number) => Number((bound + direction * step!!).toFixed(precision))
+        const typeOptions: INodeProperties['typeOptions'] = {}
+        const hints: string[] = []
+
+        // OpenAPI 3.0 - boolean modifier of minimum / maximum, 3.1 - the bound itself
+        const exclusiveMinimum = schema.exclusiveMinimum as boolean | number | undefined
+        const minimum = typeof exclusiveMinimum === 'number' ? exclusiveMinimum : schema.minimum
+        if (minimum !== undefined) {
+            const exclusive = typeof exclusiveMinimum === 'number' || exclusiveMinimum === true
+            typeOptions.minValue = exclusive && step ? inward(minimum, 1) : minimum
+            if (exclusive && !step) {
+                hints.push(`greater than ${minimum}`)
+            }
+        }
+        const exclusiveMaximum = schema.exclusiveMaximum as boolean | number | undefined
+        const maximum = typeof exclusiveMaximum === 'number' ? exclusiveMaximum : schema.maximum
+        if (maximum !== undefined) {
+            const exclusive = typeof exclusiveMaximum === 'number' || exclusiveMaximum === true
+            typeOptions.maxValue = exclusive && step ? inward(maximum, -1) : maximum
+            if (exclusive && !step) {
+                hints.push(`less than ${maximum}`)
+            }
+        }
+        if (hints.length > 0) {
+            field.hint = lodash.upperFirst(hints.join(' and '))
+        }
+
+        if (integer) {
+            typeOptions.numberPrecision = 0
+        } else if (schema.multipleOf !== undefined) {
+            typeOptions.numberPrecision = decimals(schema.multipleOf)
+        }
+        if (!lodash.isEmpty(typeOptions)) {
+            field.typeOptions = {...field.typeOptions, ...typeOptions}
+        }
+    }
+
+    /**
+     * minLength / maxLength as a hint under the field
+     */
+    private applyLengthHint(field: FromSchemaNodeProperty, schema: OpenAPIV3.SchemaObject) {
+        const min = schema.minLength
+        const max = schema.maxLength
+        const characters = (count: number) => count === 1 ? 'character' : 'characters'
+        if (min !== undefined && max !== undefined) {
+            field.hint = min === max ?
+                `Exactly ${min} ${characters(min)}` :
+                `From ${min} to ${max} ${characters(max)}`
+        } else if (min !== undefined && min > 0) {
+            field.hint = `At least ${min} ${characters(min)}`
+        } else if (max !== undefined) {
+            field.hint = `At most ${max} ${characters(max)}`
+        }
+    }
+
+    /**
+     * Items of array schema if they have "enum"
+     */
+    private enumItems(schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject | undefined {
+        const items = itemsSchema(schema)
+        if (!items) {
+            return undefined
+        }
+        const resolved = this.refResolver.resolve<OpenAPIV3.SchemaObject>(items)
+        return resolved.enum && resolved.enum.length > 0 ? resolved : undefined
+    }
+
+    /**
+     * String "format" - dates, passwords, base64 data, emails and URLs
+     * Values are converted back with sendValue and binaryPreSend.
+     * "binary" is raw file content, it can't be a part of JSON or query - it's handled only as the whole body.
+     */
+    private applyFormat(field: FromSchemaNodeProperty, schema: OpenAPIV3.SchemaObject) {
+        switch (schema.format) {
+            case 'date-time':
+            case 'date':
+                field.type = 'dateTime'
+                break
+            case 'password':
+                field.typeOptions = {password: true}
+                break
+            case 'byte':
+                // Name of the input binary property, not the data itself
+                field.default = 'data'
+                field.description = schema.description || 'Name of the input binary property with the file'
+                break
+            case 'email':
+                field.placeholder = 'name@email.com'
+                break
+            case 'uri':
+            case 'url':
+                field.placeholder = 'https://example.com'
+                break
+        }
+    }
+
+    /**
+     * Expression to send the field value as the schema expects it
+     */
+    private sendValue(schema: OpenAPIV3.SchemaObject | undefined, field: INodeProperties): string {
+        switch (field.type === 'options' ? undefined : schema?.format) {
+            case 'date-time':
+                return '={{ $value ? DateTime.fromISO($value).toISO() : $value }}'
+            case 'date':
+                return '={{ $value ? DateTime.fromISO($value).toISODate() : $value }}'
+            default:
+                return '={{ $value }}'
+        }
+    }
+
+    /**
+     * "byte" fields hold the binary property name, the content is sent base64 encoded
+     */
+    private binaryPreSend(
+        schema: OpenAPIV3.SchemaObject | undefined,
+        field: INodeProperties,
+        location: 'body' | 'qs' | 'headers',
+        path: string[],
+    ): { preSend?: PreSendAction[] } {
+        if (field.type === 'options' || schema?.format !== 'byte') {
+            return {}
+        }
+        return {preSend: [binaryToBase64(location, path)]}
+    }
+
     fromParameter(parameter: OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject): INodeProperties {
         parameter = this.refResolver.resolve<OpenAPIV3.ParameterObject>(parameter)
         let fieldSchemaKeys
@@ -117,11 +364,19 @@ export class N8NINodeProperties {
 
         // Handle array query parameters specially
         const schema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(parameter.schema || (parameter.content && findKey(parameter.content, /application\/json.*/)?.schema));
-        const isArrayQueryParam = parameter.in === 'query' && schema && schema.type === 'array';
+        const isArrayQueryParam = parameter.in === 'query' && schema && schemaType(schema) === 'array';
+        // Arrays of enums are "multiOptions" already
+        const isMultiOptions = fieldSchemaKeys.type === 'multiOptions';
 
-        if (isArrayQueryParam) {
+        if (isArrayQueryParam && !isMultiOptions) {
             fieldSchemaKeys = this.fromArrayQueryParameter(schema, parameter);
         }
+        // Only "form" style has a way to send object keys and values
+        const mapValues = parameter.in === 'query' && (parameter.style || 'form') === 'form' && schema ?
+            this.mapValues(schema) : undefined;
+        if (mapValues) {
+            fieldSchemaKeys = this.fromMap(schema, mapValues);
+        }
 
         const fieldParameterKeys: Partial<INodeProperties> = {
             displayName: lodash.startCase(parameter.name),
@@ -134,7 +389,11 @@ export class N8NINodeProperties {
 
         switch (parameter.in) {
             case "query":
-                if (isArrayQueryParam) {
+                if (isMultiOptions) {
+                    field.routing = this.getMultiOptionsQueryRouting(parameter);
+                } else if (mapValues) {
+                    field.routing = this.getMapQueryRouting(parameter);
+                } else if (isArrayQueryParam) {
                     // Array query parameters need special routing
                     field.routing = this.getArrayQueryRouting(parameter, schema);
                 } else {
@@ -142,8 +401,9 @@ export class N8NINodeProperties {
                         send: {
                             type: 'query',
                             property: parameter.name,
-                            value: '={{ $value }}',
+                            value: this.sendValue(schema, field),
                             propertyInDotNotation: false,
+                            ...this.binaryPreSend(schema, field, 'qs', [parameter.name]),
                         },
                     };
                 }
@@ -155,7 +415,20 @@ export class N8NINodeProperties {
                 field.routing = {
                     request: {
                         headers: {
-                            [parameter.name]: '={{ $value }}',
+                            // "simple" style - comma separated values
+                            [parameter.name]: isMultiOptions ? '={{ $value.join(",") }}' : this.sendValue(schema, field),
+                        },
+                    },
+                };
+                if (!isMultiOptions && schema?.format === 'byte') {
+                    field.routing.send = this.binaryPreSend(schema, field, 'headers', [parameter.name]);
+                }
+                break
+            case "cookie":
+                field.routing = {
+                    request: {
+                        headers: {
+                            Cookie: this.cookieHeader([parameter]),
                         },
                     },
                 };
@@ -171,11 +444,12 @@ export class N8NINodeProperties {
 
     private fromArrayQueryParameter(schema: OpenAPIV3.SchemaObject, parameter: OpenAPIV3.ParameterObject): Partial<INodeProperties> {
         // Type guard to ensure this is an array schema
-        if (schema.type !== 'array' || !schema.items) {
+        const items = itemsSchema(schema);
+        if (schemaType(schema) !== 'array' || !items) {
             throw new Error('fromArrayQueryParameter called with non-array schema');
         }
 
-        const itemsSchema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(schema.items);
+        const itemsSchemaResolved = this.refResolver.resolve<OpenAPIV3.SchemaObject>(items);
         let defaultValue = this.schemaExample.extractExample(schema);
 
         // For array query parameters, we typically want a fixedCollection type
@@ -194,9 +468,9 @@ export class N8NINodeProperties {
                     values: [{
                             displayName: 'Value',
                             name: 'value',
-                            type: this.getArrayItemType(itemsSchema),
-                            default: this.getArrayItemDefault(itemsSchema),
-                            description: itemsSchema.description || `Item value (${itemsSchema.type || 'any'})`,
+                            type: this.getArrayItemType(itemsSchemaResolved),
+                            default: this.getArrayItemDefault(itemsSchemaResolved),
+                            description: itemsSchemaResolved.description || `Item value (${schemaType(itemsSchemaResolved) || 'any'})`,
                     }]
                 }
             ]
@@ -213,7 +487,7 @@ export class N8NINodeProperties {
     }
 
     private getArrayItemType(itemsSchema: OpenAPIV3.SchemaObject): NodePropertyTypes {
-        switch (itemsSchema.type) {
+        switch (schemaType(itemsSchema)) {
             case 'boolean':
                 return 'boolean';
             case 'number':
@@ -233,7 +507,7 @@ export class N8NINodeProperties {
 
         // For array items in fixedCollections, we should return undefined
         // to let n8n handle defaults naturally
-        switch (itemsSchema.type) {
+        switch (schemaType(itemsSchema)) {
             case 'boolean':
                 return false; // Booleans need a default
             case 'number':
@@ -283,6 +557,48 @@ export class N8NINodeProperties {
         }
     }
 
+    /**
+     * Selected values by query parameter style - repeated (form + explode) or joined with a delimiter
+     */
+    private getMultiOptionsQueryRouting(parameter: OpenAPIV3.ParameterObject): any {
+        const style = parameter.style || 'form';
+        const explode = parameter.explode !== undefined ? parameter.explode : style === 'form';
+        let value = '={{ $value }}';
+        if (!explode) {
+            const delimiter = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ',';
+            value = `={{ $value.join("${delimiter}") }}`;
+        }
+        return {
+            send: {
+                type: 'query',
+                property: parameter.name,
+                value: value,
+                propertyInDotNotation: false,
+            },
+        };
+    }
+
+    /**
+     * "form" style object - every key is a query parameter (explode, default) or "name=k1,v1,k2,v2"
+     */
+    private getMapQueryRouting(parameter: OpenAPIV3.ParameterObject): any {
+        if (parameter.explode === false) {
+            return {
+                send: {
+                    type: 'query',
+                    property: parameter.name,
+                    value: `={{ Object.entries(${MAP_VALUE}).flat().join(",") }}`,
+                    propertyInDotNotation: false,
+                },
+            };
+        }
+        return {
+            request: {
+                qs: `={{ ${MAP_VALUE} }}`,
+            },
+        };
+    }
+
     fromParameters(parameters: (OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject)[] | undefined): INodeProperties[] {
         if (!parameters) {
             return [];
@@ -292,9 +608,44 @@ export class N8NINodeProperties {
             const field = this.fromParameter(parameter)
             fields.push(field);
         }
+
+        // All cookie fields send the same "Cookie" header with all cookies, so they don't override each other
+        const cookies = parameters
+            .map((parameter) => this.refResolver.resolve<OpenAPIV3.ParameterObject>(parameter))
+            .filter((parameter) => parameter.in === 'cookie')
+        if (cookies.length > 1) {
+            const cookie = this.cookieHeader(cookies)
+            for (const field of fields) {
+                if (field.routing?.request?.headers?.Cookie) {
+                    field.routing.request.headers.Cookie = cookie
+                }
+            }
+        }
         return fields;
     }
 
+    /**
+     * "Cookie" header expression with "form" style cookies - "a=1; b=x,y" or "a=1; b=x; b=y" if exploded.
+     * Optional fields are looked up in "additionalFields" as well, empty ones are skipped.
+     */
+    private cookieHeader(parameters: OpenAPIV3.ParameterObject[]): string {
+        const entries = parameters.map((parameter) => {
+            const name = encodeURIComponent(parameter.name.replace(/\./g, "-"))
+            const value = `$parameter["${name}"] ?? $parameter.additionalFields?.["${name}"]`
+            const schema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(parameter.schema || {})
+            const array = schemaType(schema) === 'array'
+            const explode = parameter.explode !== false
+            return `[${JSON.stringify(parameter.name)}, ${value}, ${array}, ${explode}]`
+        })
+        return `={{ [${entries.join(', ')}]` +
+            `.filter(([name, value]) => value !== undefined && value !== null && value !== "")` +
+            `.flatMap(([name, value, array, explode]) => {` +
+            ` const values = array ? [].concat(typeof value === "string" ? JSON.parse(value) : value).map(encodeURIComponent) : [encodeURIComponent(value)];` +
+            ` return explode ? values.map((v) => name + "=" + v) : [name + "=" + values.join(",")];` +
+            ` })` +
+            `.join("; ") }}`
+    }
+
     fromSchemaProperty(name: string, property: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject): INodeProperties {
         const fieldSchemaKeys: FromSchemaNodeProperty = this.fromSchema(property)
         const fieldParameterKeys: Partial<INodeProperties> = {
@@ -333,12 +684,25 @@ export class N8NINodeProperties {
         }
         
         const requestBodySchema = content.schema!!;
-        const schema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(requestBodySchema)
+        // Keep oneOf / anyOf of the referenced schema, resolve picks the first member of inline ones
+        const variantsSchema = '$ref' in requestBodySchema
+            ? this.refResolver.resolve<OpenAPIV3.SchemaObject>(requestBodySchema)
+            : requestBodySchema
+        const variants = this.variants(variantsSchema)
+        if (variants) {
+            const bodyRefs = '$ref' in requestBodySchema ? [requestBodySchema.$ref] : []
+            return this.fromVariants(variantsSchema, variants, bodyRefs)
+        }
+
+        // The body schema is the root for recursive refs of its properties
+        const [schema, schemaRefs] = this.refResolver.resolveRef<OpenAPIV3.SchemaObject>(requestBodySchema)
+        const bodyRefs = schemaRefs || []
+        const type = schemaType(schema)
         
         const fields = [];
         
         // Handle simple scalar types (string, number, boolean)
-        if (!schema.properties && (schema.type === 'string' || schema.type === 'number' || schema.type === 'integer' || schema.type === 'boolean')) {
+        if (!schema.properties && (type === 'string' || type === 'number' || type === 'integer' || type === 'boolean')) {
             const fieldPropertyKeys: FromSchemaNodeProperty = this.fromSchema(schema)
             const fieldDefaults: Partial<INodeProperties> = {
                 displayName: 'Body',
@@ -350,7 +714,7 @@ export class N8NINodeProperties {
             
             // For */* content type with string, it's likely binary/file upload
             // Use n8n's binaryPropertyName type for proper binary handling
-            if (contentType === '*/*' && schema.type === 'string') {
+            if ((contentType === '*/*' || schema.format === 'binary') && type === 'string') {
                 field.type = 'string';
                 field.displayName = 'Binary Property';
                 field.default = 'data';
@@ -369,17 +733,36 @@ export class N8NINodeProperties {
             } else {
                 field.routing = {
                     request: {
-                        body: '={{ $value }}'
+                        body: this.sendValue(schema, field)
                     },
                 };
+                if (schema.format === 'byte') {
+                    field.routing.send = this.binaryPreSend(schema, field, 'body', []);
+                }
             }
             fields.push(field);
             return fields;
         }
         
+        // Array of enum values is "multiOptions", selected values are the body
+        if (type === "array" && this.enumItems(schema)) {
+            const fieldDefaults: Partial<INodeProperties> = {
+                required: body.required
+            }
+            const field = combine(fieldDefaults, this.fromSchemaProperty("body", schema))
+            field.routing = {
+                request: {
+                    body: '={{ $value }}'
+                },
+            };
+            fields.push(field);
+            return fields;
+        }
+
         // Handle array types
-        if (schema.type === "array" && schema.items) {
-            const innerSchema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(schema.items)
+        const items = itemsSchema(schema)
+        if (type === "array" && items) {
+            const innerSchema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(items)
             const fieldPropertyKeys: FromSchemaNodeProperty = this.fromSchemaProperty("body", innerSchema)
             const fieldDefaults: Partial<INodeProperties> = {
                 required: body.required
@@ -395,39 +778,396 @@ export class N8NINodeProperties {
         }
 
         // Handle object types with properties
-        if (!schema.properties && schema.type !== 'object') {
-            throw new Error(`Request body schema type '${schema.type}' not supported`);
+        if (!schema.properties && type !== 'object') {
+            throw new Error(`Request body schema type '${type}' not supported`);
         }
 
-        const properties = schema.properties;
-        for (const key in properties) {
-            const property = properties[key];
-            const fieldPropertyKeys: FromSchemaNodeProperty = this.fromSchemaProperty(key, property)
+        for (const [key, property] of this.requestProperties(schema)) {
+            const fieldPropertyKeys = this.fromBodyProperty([key], property, bodyRefs)
             const fieldDefaults: Partial<INodeProperties> = {
                 required: schema.required && schema.required?.includes(key),
             }
             const field = combine(fieldDefaults, fieldPropertyKeys)
-            if (field.type === 'json') {
-                field.routing = {
-                    send: {
-                        "property": key,
-                        "propertyInDotNotation": false,
-                        "type": "body",
-                        "value": '={{ JSON.parse($value) }}'
-                    },
-                };
-            } else {
-                field.routing = {
-                    send: {
-                        "property": key,
-                        "propertyInDotNotation": false,
-                        "type": "body",
-                        "value": '={{ $value }}'
+            fields.push(...this.withNullField([key], property, field));
+        }
+        return fields;
+    }
+
+    /**
+     * Properties to send in request - without server-owned "readOnly" ones
+     */
+    private requestProperties(schema: OpenAPIV3.SchemaObject): [string, Schema][] {
+        return Object.entries(schema.properties || {}).filter(([, property]) => {
+            const resolved = this.refResolver.resolve<OpenAPIV3.SchemaObject>(property)
+            return !resolved.readOnly
+        })
+    }
+
+    /**
+     * oneOf / anyOf members with object properties, undefined if there's nothing to choose from
+     */
+    private variants(schema: OpenAPIV3.SchemaObject): Schema[] | undefined {
+        const members = (schema.oneOf || schema.anyOf || []).filter((member) => !isNullSchema(member))
+        if (members.length < 2) {
+            return undefined
+        }
+        const objects = members.filter((member) => {
+            const resolved = this.refResolver.resolve<OpenAPIV3.SchemaObject>(member)
+            return resolved.properties && Object.keys(resolved.properties).length > 0
+        })
+        return objects.length > 0 ? members : undefined
+    }
+
+    /**
+     * "Type" field to select the variant and variant fields shown only when it's selected.
+     * The discriminator property is sent with the selected value.
+     * A property in several variants is one field if it's the same everywhere,
+     * otherwise each variant gets its own field, so their values don't override each other.
+     */
+    private fromVariants(schema: OpenAPIV3.SchemaObject, members: Schema[], bodyRefs: string[]): INodeProperties[] {
+        const discriminator = schema.discriminator
+        const variants = members.map((member, index) => {
+            const [resolved, memberRefs] = this.refResolver.resolveRef<OpenAPIV3.SchemaObject>(member)
+            return {
+                value: this.variantValue(member, resolved, discriminator, index),
+                schema: resolved,
+                refs: [...bodyRefs, ...(memberRefs || [])],
+                properties: this.requestProperties(resolved).filter(([key]) => key !== discriminator?.propertyName),
+            }
+        })
+        const selector = discriminator?.propertyName || this.variantField(variants.map((v) => v.properties))
+        const options: INodePropertyOptions[] = variants.map((variant) => ({
+            name: variant.schema.title || lodash.startCase(variant.value),
+            value: variant.value,
+        }))
+
+        // Variants having each property with its schema and "required"
+        const occurrences = new Map<string, { value: string, schema: OpenAPIV3.SchemaObject, required: boolean }[]>()
+        for (const variant of variants) {
+            for (const [key, property] of variant.properties) {
+                if (!occurrences.has(key)) {
+                    occurrences.set(key, [])
+                }
+                occurrences.get(key)!!.push({
+                    value: variant.value,
+                    schema: this.refResolver.resolve<OpenAPIV3.SchemaObject>(property),
+                    required: !!variant.schema.required?.includes(key),
+                })
+            }
+        }
+
+        const fields: INodeProperties[] = []
+        const shared = new Set<string>()
+        for (const variant of variants) {
+            for (const [key, property] of variant.properties) {
+                const found = occurrences.get(key)!!
+                const same = found.every((o) => o.required === found[0].required && lodash.isEqual(o.schema, found[0].schema))
+                if (same && shared.has(key)) {
+                    continue
+                }
+                const fieldDefaults: Partial<INodeProperties> = {
+                    required: variant.schema.required?.includes(key),
+                    displayOptions: {
+                        show: {
+                            // from the root, the field can end up in "Additional Fields"
+                            [`/${selector}`]: same ? found.map((o) => o.value) : [variant.value],
+                        },
                     },
-                };
+                }
+                const field = combine(fieldDefaults, this.fromBodyProperty([key], property, variant.refs))
+                if (same) {
+                    shared.add(key)
+                } else {
+                    field.name = `${field.name}_${lodash.camelCase(variant.value)}`
+                }
+                fields.push(...this.withNullField([key], property, field))
             }
-            fields.push(field);
         }
-        return fields;
+
+        const field: INodeProperties = {
+            displayName: 'Type',
+            name: selector,
+            type: 'options',
+            required: true,
+            options: options,
+            default: options[0].value,
+        }
+        if (schema.description) {
+            field.description = schema.description
+        }
+        if (discriminator) {
+            field.routing = {
+                send: {
+                    "property": selector,
+                    "propertyInDotNotation": false,
+                    "type": "body",
+                    "value": '={{ $value }}'
+                },
+            }
+        }
+        return [field, ...fields]
+    }
+
+    /**
+     * Name of the selector without discriminator - "variant" unless a variant has such property
+     */
+    private variantField(properties: [string, Schema][][]): string {
+        const keys = properties.flatMap((entries) => entries.map(([key]) => key))
+        let name = VARIANT_FIELD
+        for (let index = 1; keys.includes(name); index++) {
+            name = `${VARIANT_FIELD}${index}`
+        }
+        return name
+    }
+
+    /**
+     * Discriminator mapping, single value of the discriminator property, schema name, title - the first found
+     */
+    private variantValue(
+        member: Schema,
+        resolved: OpenAPIV3.SchemaObject,
+        discriminator: OpenAPIV3.DiscriminatorObject | undefined,
+        index: number,
+    ): string {
+        const ref = '$ref' in member ? member.$ref : undefined
+        const refName = ref ? lodash.last(parseJsonPointer(ref)) : undefined
+        if (discriminator) {
+            const mapped = Object.entries(discriminator.mapping || {})
+                .find(([, target]) => target === ref || target === refName)
+            if (mapped) {
+                return mapped[0]
+            }
+            const property = resolved.properties?.[discriminator.propertyName]
+            if (property) {
+                const propertyResolved = this.refResolver.resolve<OpenAPIV3_1.SchemaObject>(property)
+                if (propertyResolved.const !== undefined) {
+                    return `${propertyResolved.const}`
+                }
+                if (propertyResolved.enum?.length === 1) {
+                    return `${propertyResolved.enum[0]}`
+                }
+            }
+        }
+        return refName || resolved.title || `variant${index + 1}`
+    }
+
+    /**
+     * Request body property with routing to its place in the body.
+     * Nested objects become "collection" fields up to configured depth, sub-fields send their own values.
+     * @param path - path of the property in the body, e.g. ["shipping", "address"]
+     * @param refs - refs resolved up the tree, recursive schemas stay JSON
+     */
+    private fromBodyProperty(path: string[], property: Schema, refs: string[]): INodeProperties {
+        const name = path[path.length - 1]
+        const field = this.fromSchemaProperty(name, property)
+        const [schema, schemaRefs] = this.refResolver.resolveRef<OpenAPIV3.SchemaObject>(property, refs)
+        const recursive = (schemaRefs || []).some((ref) => refs.includes(ref))
+        const keys = this.requestProperties(schema).map(([key]) => key)
+        const nested = path.length <= this.config.depth &&
+            schemaType(schema) === 'object' &&
+            keys.length > 0 &&
+            !recursive &&
+            // Sub-fields are sent with dot notation
+            !keys.some((key) => key.includes('.')) &&
+            !name.includes('.')
+        if (nested) {
+            const nestedRefs = [...refs, ...(schemaRefs || [])]
+            field.type = 'collection'
+            field.placeholder = 'Add Field'
+            field.default = {}
+            field.options = keys.flatMap((key) => {
+                const property = schema.properties!![key]
+                const subField = this.fromBodyProperty([...path, key], property, nestedRefs)
+                return this.withNullField([...path, key], property, subField)
+            })
+            return field
+        }
+        const mapValues = this.mapValues(schema)
+        if (mapValues) {
+            Object.assign(field, this.fromMap(schema, mapValues))
+            field.routing = {
+                send: {
+                    "property": path.join('.'),
+                    "propertyInDotNotation": path.length > 1,
+                    "type": "body",
+                    "value": `={{ ${MAP_VALUE} }}`
+                },
+            };
+            return field
+        }
+        const items = this.flatObjectItems(schema)
+        if (items) {
+            Object.assign(field, this.fromArrayOfObjects(schema, items))
+            field.routing = {
+                send: {
+                    "property": path.join('.'),
+                    "propertyInDotNotation": path.length > 1,
+                    "type": "body",
+                    "value": '={{ $value.items ? $value.items : [] }}'
+                },
+            };
+            return field
+        }
+        field.routing = {
+            send: {
+                "property": path.join('.'),
+                "propertyInDotNotation": path.length > 1,
+                "type": "body",
+                "value": field.type === 'json' ? '={{ JSON.parse($value) }}' : this.sendValue(schema, field),
+                ...this.binaryPreSend(schema, field, 'body', path),
+            },
+        };
+        return field
+    }
+
+    /**
+     * Nullable property gets "Set ... to Null" field next to it.
+     * n8n fields can't hold null, the boolean sends real null instead of the field value when it's on
+     * (undefined is skipped when request options are merged, so the field value stays when it's off)
+     */
+    private withNullField(path: string[], property: Schema, field: INodeProperties): INodeProperties[] {
+        // Resolving picks the non-null member of oneOf / anyOf, so the null member is looked up before
+        const variants = (value: any) => value.oneOf || value.anyOf || []
+        const schema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(property)
+        const nullable = variants(property).some(isNullSchema) || isNullable(schema) || variants(schema).some(isNullSchema)
+        if (!nullable) {
+            return [field]
+        }
+        const nullField: INodeProperties = {
+            displayName: `Set ${field.displayName} to Null`,
+            name: `${field.name}_null`,
+            type: 'boolean',
+            default: false,
+            description: `Whether to send null as ${field.displayName}`,
+            routing: {
+                send: {
+                    "property": path.join('.'),
+                    "propertyInDotNotation": path.length > 1,
+                    "type": "body",
+                    "value": '={{ $value ? null : undefined }}'
+                },
+            },
+        }
+        if (field.displayOptions) {
+            nullField.displayOptions = field.displayOptions
+        }
+        return [field, nullField]
+    }
+
+    /**
+     * Values schema of a map - object without properties, with scalar "additionalProperties"
+     */
+    private mapValues(schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject | undefined {
+        const values = schema.additionalProperties
+        if (schemaType(schema) !== 'object' || !lodash.isEmpty(schema.properties) || typeof values !== 'object') {
+            return undefined
+        }
+        const resolved = this.refResolver.resolve<OpenAPIV3.SchemaObject>(values)
+        const type = schemaType(resolved)
+        return type !== undefined && type !== 'object' && type !== 'array' ? resolved : undefined
+    }
+
+    /**
+     * Repeatable "fixedCollection" of key and value (typed by the values schema),
+     * $value.pairs is the list of entries
+     */
+    private fromMap(schema: OpenAPIV3.SchemaObject, values: OpenAPIV3.SchemaObject): Partial<INodeProperties> {
+        const value = combine({displayName: 'Value', name: 'value'}, this.fromSchema(this.plainSchema(values)))
+        const field: Partial<INodeProperties> = {
+            type: 'fixedCollection',
+            placeholder: 'Add Pair',
+            default: {},
+            typeOptions: {
+                multipleValues: true,
+            },
+            options: [
+                {
+                    name: 'pairs',
+                    displayName: 'Pairs',
+                    values: [
+                        {
+                            displayName: 'Key',
+                            name: 'key',
+                            type: 'string',
+                            default: '',
+                        },
+                        value,
+                    ],
+                },
+            ],
+        }
+        const example = this.schemaExample.extractExample(schema)
+        if (lodash.isPlainObject(example) && !lodash.isEmpty(example)) {
+            field.default = {
+                pairs: Object.entries(example).map(([key, value]) => ({key: key, value: value}) as INodeParameters),
+            }
+        }
+        return field
+    }
+
+    /**
+     * Schema of "fixedCollection" sub-field - the values are sent as they are,
+     * so formats converted by routing stay plain strings
+     */
+    private plainSchema(property: Schema): OpenAPIV3.SchemaObject {
+        const schema = this.refResolver.resolve<OpenAPIV3.SchemaObject>(property)
+        return CONVERTED_FORMATS.includes(schema.format!!) ? {...schema, format: undefined} : schema
+    }
+
+    /**
+     * Items of array schema if they are objects with scalar properties only
+     */
+    private flatObjectItems(schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject | undefined {
+        const items = itemsSchema(schema)
+        if (schemaType(schema) !== 'array' || !items) {
+            return undefined
+        }
+        const resolved = this.refResolver.resolve<OpenAPIV3.SchemaObject>(items)
+        const properties = this.requestProperties(resolved).map(([, property]) => property)
+        if (schemaType(resolved) !== 'object' || properties.length === 0) {
+            return undefined
+        }
+        const scalar = properties.every((property) => {
+            const type = schemaType(this.refResolver.resolve<OpenAPIV3.SchemaObject>(property))
+            return type !== 'object' && type !== 'array'
+        })
+        return scalar ? resolved : undefined
+    }
+
+    /**
+     * Repeatable "fixedCollection" with a sub-field for each item property,
+     * $value.items is the array of objects
+     */
+    private fromArrayOfObjects(schema: OpenAPIV3.SchemaObject, items: OpenAPIV3.SchemaObject): Partial<INodeProperties> {
+        const values = this.requestProperties(items).map(([key, property]) => {
+            const fieldDefaults: Partial<INodeProperties> = {
+                required: items.required?.includes(key),
+            }
+            return combine(fieldDefaults, this.fromSchemaProperty(key, this.plainSchema(property)))
+        })
+        const field: Partial<INodeProperties> = {
+            type: 'fixedCollection',
+            placeholder: 'Add Item',
+            default: {},
+            typeOptions: {
+                multipleValues: true,
+            },
+            options: [
+                {
+                    name: 'items',
+                    displayName: 'Items',
+                    values: values,
+                },
+            ],
+        }
+        // Properties without example are undefined - an item without any of them is not prefilled
+        const example = this.schemaExample.extractExample(schema)
+        const defined = Array.isArray(example) ?
+            example.map((item) => lodash.omitBy(item, lodash.isUndefined)).filter((item) => !lodash.isEmpty(item)) :
+            []
+        if (defined.length > 0) {
+            field.default = {items: defined}
+        }
+        return field
     }
 }
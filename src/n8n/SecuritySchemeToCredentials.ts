@@ -0,0 +1,169 @@
+import {OpenAPIV3} from "openapi-types";
+import {IAuthenticate, IAuthenticateGeneric, IHttpRequestOptions, INodeProperties} from "n8n-workflow";
+
+/**
+ * Credential type without name - properties and the way to authenticate requests
+ */
+export interface CredentialDefinition {
+    extends?: string[];
+    properties: INodeProperties[];
+    authenticate?: IAuthenticate;
+}
+
+/**
+ * OAuth2 flows supported by n8n "oAuth2Api" credentials, in order of preference
+ */
+const OAUTH2_GRANT_TYPES = ['authorizationCode', 'clientCredentials'] as const
+
+/**
+ * Converts OpenAPI security scheme to n8n credential properties and "authenticate" block
+ */
+export class N8NCredentials {
+    /**
+     * @param scopes - OAuth2 scopes to request, all scopes of the flow if empty
+     * @returns undefined if the scheme is not supported
+     */
+    fromSecurityScheme(scheme: OpenAPIV3.SecuritySchemeObject, scopes: string[] = []): CredentialDefinition | undefined {
+        switch (scheme.type) {
+            case 'apiKey':
+                return this.fromApiKey(scheme)
+            case 'http':
+                return this.fromHttp(scheme)
+            case 'oauth2':
+                return this.fromOAuth2(scheme, scopes)
+            default:
+                return undefined
+        }
+    }
+
+    private fromApiKey(scheme: OpenAPIV3.ApiKeySecurityScheme): CredentialDefinition | undefined {
+        const value = '={{$credentials.apiKey}}'
+        let properties: IAuthenticateGeneric['properties']
+        switch (scheme.in) {
+            case 'header':
+                properties = {headers: {[scheme.name]: value}}
+                break
+            case 'query':
+                properties = {qs: {[scheme.name]: value}}
+                break
+            case 'cookie':
+                return {
+                    properties: [this.secret('API Key', 'apiKey', scheme)],
+                    authenticate: this.cookie(scheme.name),
+                }
+            default:
+                return undefined
+        }
+        return {
+            properties: [this.secret('API Key', 'apiKey', scheme)],
+            authenticate: {type: 'generic', properties: properties},
+        }
+    }
+
+    /**
+     * Generic "authenticate" replaces the "Cookie" header the cookie parameters build,
+     * so the credential cookie is appended to it instead
+     */
+    private cookie(name: string): IAuthenticate {
+        return async (credentials, requestOptions: IHttpRequestOptions) => {
+            const cookie = `${name}=${credentials.apiKey}`
+            const existing = requestOptions.headers?.Cookie
+            requestOptions.headers = {
+                ...requestOptions.headers,
+                Cookie: existing ? `${existing}; ${cookie}` : cookie,
+            }
+            return requestOptions
+        }
+    }
+
+    private fromHttp(scheme: OpenAPIV3.HttpSecurityScheme): CredentialDefinition | undefined {
+        switch (scheme.scheme.toLowerCase()) {
+            case 'bearer':
+                return {
+                    properties: [this.secret('Token', 'token', scheme)],
+                    authenticate: {
+                        type: 'generic',
+                        properties: {
+                            headers: {Authorization: '=Bearer {{$credentials.token}}'},
+                        },
+                    },
+                }
+            case 'basic':
+                return {
+                    properties: [
+                        {
+                            displayName: 'Username',
+                            name: 'username',
+                            type: 'string',
+                            default: '',
+                        },
+                        this.secret('Password', 'password'),
+                    ],
+                    authenticate: {
+                        type: 'generic',
+                        properties: {
+                            auth: {
+                                username: '={{$credentials.username}}',
+                                password: '={{$credentials.password}}',
+                            },
+                        },
+                    },
+                }
+            default:
+                return undefined
+        }
+    }
+
+    /**
+     * Extends n8n "oAuth2Api" credentials and prefills its hidden fields from the flow
+     */
+    private fromOAuth2(scheme: OpenAPIV3.OAuth2SecurityScheme, scopes: string[]): CredentialDefinition | undefined {
+        const grantType = OAUTH2_GRANT_TYPES.find((type) => scheme.flows[type])
+        if (!grantType) {
+            return undefined
+        }
+        const flow = scheme.flows[grantType]!!
+        if (scopes.length === 0) {
+            scopes = Object.keys(flow.scopes || {})
+        }
+        const properties: INodeProperties[] = [
+            this.hidden('Grant Type', 'grantType', grantType),
+        ]
+        if ('authorizationUrl' in flow) {
+            properties.push(this.hidden('Authorization URL', 'authUrl', flow.authorizationUrl))
+        }
+        properties.push(
+            this.hidden('Access Token URL', 'accessTokenUrl', flow.tokenUrl),
+            this.hidden('Scope', 'scope', scopes.join(' ')),
+            this.hidden('Auth URI Query Parameters', 'authQueryParameters', ''),
+            this.hidden('Authentication', 'authentication', 'header'),
+        )
+        return {
+            extends: ['oAuth2Api'],
+            properties: properties,
+        }
+    }
+
+    private hidden(displayName: string, name: string, value: string): INodeProperties {
+        return {
+            displayName: displayName,
+            name: name,
+            type: 'hidden',
+            default: value,
+        }
+    }
+
+    private secret(displayName: string, name: string, scheme?: OpenAPIV3.SecuritySchemeObject): INodeProperties {
+        const field: INodeProperties = {
+            displayName: displayName,
+            name: name,
+            type: 'string',
+            typeOptions: {password: true},
+            default: '',
+        }
+        if (scheme?.description) {
+            field.description = scheme.description
+        }
+        return field
+    }
+}
@@ -0,0 +1,122 @@
+import {OpenAPIV3} from "openapi-types";
+import {INodeProperties, INodePropertyOptions} from "n8n-workflow";
+import {ICredentialParser} from "../CredentialParser";
+import {RefResolver} from "../openapi/RefResolver";
+import {N8NCredentials} from "./SecuritySchemeToCredentials";
+
+/**
+ * Value of "authentication" field for operations without security
+ */
+export const NONE = 'none'
+
+/**
+ * Builds "authentication" field for operation security requirements.
+ * Node credentials are shown by the field value (see N8NCredentialsBuilder.buildNodeCredentials)
+ */
+export class N8NAuthentication {
+    private readonly refResolver: RefResolver
+    private readonly n8nCredentials = new N8NCredentials()
+
+    constructor(private doc: OpenAPIV3.Document, private credentialParser: ICredentialParser) {
+        this.refResolver = new RefResolver(doc)
+    }
+
+    /**
+     * @param security - operation "security", falls back to document "security",
+     * then to any of the supported security schemes
+     */
+    fields(security: OpenAPIV3.SecurityRequirementObject[] | undefined): INodeProperties[] {
+        if (security === undefined) {
+            security = this.doc.security
+        }
+        if (security === undefined) {
+            security = this.anyScheme()
+            if (security.length === 0) {
+                return []
+            }
+        }
+
+        const options: INodePropertyOptions[] = []
+        const unsupported: string[] = []
+        // Empty list or empty requirement - authentication is optional
+        if (security.length === 0) {
+            options.push({name: 'None', value: NONE})
+        }
+        for (const requirement of security) {
+            const names = Object.keys(requirement)
+            const option = this.option(names)
+            if (option) {
+                options.push(option)
+            } else {
+                unsupported.push(names.join(' + '))
+            }
+        }
+        const unique = options.filter((option, index) => options.findIndex((o) => o.value === option.value) === index)
+
+        const fields: INodeProperties[] = []
+        if (unique.length === 0) {
+            const schemes = unsupported.map((name) => `"${name}"`).join(' or ')
+            fields.push({
+                displayName: `The operation requires ${schemes} authentication which is not supported, kindly use HTTP Request node`,
+                name: 'operation',
+                type: 'notice',
+                default: '',
+            })
+            unique.push({name: 'None', value: NONE})
+        }
+        if (unique.length === 1) {
+            fields.push({
+                displayName: 'Authentication',
+                name: 'authentication',
+                type: 'hidden',
+                default: unique[0].value,
+            })
+        } else {
+            fields.push({
+                displayName: 'Authentication',
+                name: 'authentication',
+                type: 'options',
+                options: unique,
+                default: unique[0].value,
+            })
+        }
+        return fields
+    }
+
+    /**
+     * Requirements for each supported security scheme - the spec declares schemes, but not where they apply
+     */
+    private anyScheme(): OpenAPIV3.SecurityRequirementObject[] {
+        const names = Object.keys(this.doc.components?.securitySchemes || {})
+        return names
+            .filter((name) => this.option([name]))
+            .map((name) => ({[name]: []}))
+    }
+
+    /**
+     * Credential option for security requirement,
+     * undefined if the scheme is not supported or requires several schemes at once
+     */
+    private option(names: string[]): INodePropertyOptions | undefined {
+        if (names.length === 0) {
+            return {name: 'None', value: NONE}
+        }
+        if (names.length > 1) {
+            return undefined
+        }
+        const name = names[0]
+        const scheme = this.doc.components?.securitySchemes?.[name]
+        if (!scheme) {
+            return undefined
+        }
+        const resolved = this.refResolver.resolve<OpenAPIV3.SecuritySchemeObject>(scheme)
+        if (!this.n8nCredentials.fromSecurityScheme(resolved)) {
+            return undefined
+        }
+        const context = {name: name, doc: this.doc}
+        return {
+            name: this.credentialParser.displayName(resolved, context),
+            value: this.credentialParser.name(resolved, context),
+        }
+    }
+}
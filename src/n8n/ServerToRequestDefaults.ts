@@ -0,0 +1,215 @@
+import {OpenAPIV3} from "openapi-types";
+import {DeclarativeRestApiSettings, INodeProperties} from "n8n-workflow";
+import * as lodash from "lodash";
+
+/**
+ * Where server variables (and base url for relative servers) are defined:
+ * - credentials - $credentials.region (default)
+ * - parameters - $parameter["region"], node fields
+ */
+export type ServerVariablesLocation = 'credentials' | 'parameters'
+
+export interface ServerConfig {
+    /**
+     * Index of "servers" entry used as default base URL, the first one by default
+     */
+    index?: number;
+    /**
+     * Where to define server variables, "credentials" by default
+     */
+    variables?: ServerVariablesLocation;
+}
+
+/**
+ * Name of the field with base URL for relative servers (e.g. "/api/v3")
+ */
+const URL_FIELD = 'url'
+
+/**
+ * Builds n8n node "requestDefaults" (base URL) from OpenAPI "servers"
+ */
+export class N8NRequestDefaults {
+    private readonly config: Required<ServerConfig>
+
+    constructor(private doc: OpenAPIV3.Document, config?: ServerConfig) {
+        this.config = {
+            index: config?.index || 0,
+            variables: config?.variables || 'credentials',
+        }
+    }
+
+    /**
+     * Server used as default base URL
+     */
+    get server(): OpenAPIV3.ServerObject {
+        const servers = this.doc.servers || []
+        if (servers.length === 0) {
+            return {url: '/'}
+        }
+        const server = servers[this.config.index]
+        if (!server) {
+            throw new Error(`Server with index ${this.config.index} not found, there are ${servers.length} servers`)
+        }
+        return server
+    }
+
+    requestDefaults(): DeclarativeRestApiSettings.HttpRequestOptions {
+        return {
+            baseURL: this.baseURL(this.server),
+            headers: {
+                Accept: 'application/json',
+                'Content-Type': 'application/json',
+            },
+        }
+    }
+
+    /**
+     * Fields for server variables (and base url for relative servers),
+     * add them to credentials or node properties according to "variables" config
+     */
+    fields(): INodeProperties[] {
+        const server = this.server
+        const fields: INodeProperties[] = []
+        if (isRelative(server.url)) {
+            fields.push({
+                displayName: 'Base URL',
+                name: URL_FIELD,
+                type: 'string',
+                default: '',
+                placeholder: 'https://api.example.com',
+                required: true,
+            })
+        }
+        for (const [name, variable] of Object.entries(server.variables || {})) {
+            fields.push(this.variableField(name, variable))
+        }
+        return fields
+    }
+
+    /**
+     * https://{region}.example.com/v1 => =https://{{$credentials.region}}.example.com/v1
+     */
+    baseURL(server: OpenAPIV3.ServerObject): string {
+        let url = server.url.replace(/\/+$/, '')
+        if (isRelative(url)) {
+            url = `{${URL_FIELD}}${url}`
+        }
+        const variables = Object.keys(server.variables || {})
+        if (isRelative(server.url)) {
+            variables.push(URL_FIELD)
+        }
+        if (variables.length === 0) {
+            return url
+        }
+        for (const name of variables) {
+            url = url.split(`{${name}}`).join(`{{${this.reference(name)}}}`)
+        }
+        return `=${url}`
+    }
+
+    /**
+     * Base URL for path-level or operation-level "servers" override.
+     * Variables defined in the default server are referenced as usual,
+     * the rest get their default values.
+     * Relative URLs are resolved against the default server.
+     * @returns undefined if the server is the same as the default one
+     */
+    overrideBaseURL(server: OpenAPIV3.ServerObject): string | undefined {
+        if (server.url === this.server.url) {
+            return undefined
+        }
+        return this.baseURL(this.overrideServer(server))
+    }
+
+    /**
+     * Whether base URL references credentials - server variables or base url for relative servers
+     * @param server - path-level or operation-level "servers" override, the default server if not set
+     */
+    fromCredentials(server?: OpenAPIV3.ServerObject): boolean {
+        if (this.config.variables !== 'credentials') {
+            return false
+        }
+        const resolved = this.resolve(server)
+        return isRelative(resolved.url) || Object.keys(resolved.variables || {}).length > 0
+    }
+
+    /**
+     * Base URL with server variables replaced by their default values,
+     * for operations sent without credentials.
+     * @param server - path-level or operation-level "servers" override, the default server if not set
+     * @returns undefined for relative servers - base url has no default value
+     */
+    defaultBaseURL(server?: OpenAPIV3.ServerObject): string | undefined {
+        const resolved = this.resolve(server)
+        if (isRelative(resolved.url)) {
+            return undefined
+        }
+        let url = resolved.url.replace(/\/+$/, '')
+        for (const [name, variable] of Object.entries(resolved.variables || {})) {
+            url = url.split(`{${name}}`).join(`${variable.default}`)
+        }
+        return url
+    }
+
+    private resolve(server?: OpenAPIV3.ServerObject): OpenAPIV3.ServerObject {
+        if (!server || server.url === this.server.url) {
+            return this.server
+        }
+        return this.overrideServer(server)
+    }
+
+    /**
+     * Override server with the default server variables only
+     */
+    private overrideServer(server: OpenAPIV3.ServerObject): OpenAPIV3.ServerObject {
+        const defaultServer = this.server
+        let url = server.url
+        if (isRelative(url)) {
+            const base = defaultServer.url.replace(/\/+$/, '')
+            const origin = base.match(/^[^:]+:\/\/[^/]+/)
+            if (!url.startsWith('/')) {
+                url = `${base}/${url}`
+            } else if (origin) {
+                url = `${origin[0]}${url}`
+            }
+        }
+        const variables = {...server.variables}
+        for (const name of Object.keys(defaultServer.variables || {})) {
+            delete variables[name]
+        }
+        for (const [name, variable] of Object.entries(variables)) {
+            url = url.split(`{${name}}`).join(`${variable.default}`)
+        }
+        const referenced = lodash.pickBy(defaultServer.variables, (_, name) => url.includes(`{${name}}`))
+        return {url: url, variables: referenced}
+    }
+
+    private reference(name: string): string {
+        if (this.config.variables === 'parameters') {
+            return `$parameter["${name}"]`
+        }
+        return `$credentials.${name}`
+    }
+
+    private variableField(name: string, variable: OpenAPIV3.ServerVariableObject): INodeProperties {
+        const field: INodeProperties = {
+            displayName: lodash.startCase(name),
+            name: name,
+            type: 'string',
+            default: variable.default,
+            required: true,
+        }
+        if (variable.description) {
+            field.description = variable.description
+        }
+        if (variable.enum && variable.enum.length > 0) {
+            field.type = 'options'
+            field.options = variable.enum.map((value) => ({name: `${value}`, value: value}))
+        }
+        return field
+    }
+}
+
+function isRelative(url: string): boolean {
+    return !/^[a-z][a-z0-9+.-]*:\/\//i.test(url) && !url.startsWith('{')
+}
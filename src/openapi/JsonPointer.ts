@@ -0,0 +1,61 @@
+/**
+ * JSON Pointer (RFC 6901) helpers for "$ref" values
+ */
+
+/**
+ * "#/paths/~1users~1{id}/get" => ["paths", "/users/{id}", "get"]
+ * URI fragment form ("#/...") is percent-decoded first, then "~1" => "/" and "~0" => "~"
+ */
+export function parseJsonPointer(pointer: string): string[] {
+    if (pointer.startsWith('#')) {
+        pointer = decodeFragment(pointer.slice(1))
+    }
+    if (pointer === '') {
+        return []
+    }
+    if (!pointer.startsWith('/')) {
+        throw new Error(`Invalid JSON pointer '${pointer}', it must start with '/'`)
+    }
+    return pointer
+        .slice(1)
+        .split('/')
+        .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * ["paths", "/users/{id}", "get"] => "#/paths/~1users~1{id}/get"
+ */
+export function compileJsonPointer(segments: string[]): string {
+    const escaped = segments.map((segment) => `${segment}`.replace(/~/g, '~0').replace(/\//g, '~1'))
+    return ['#', ...escaped].join('/')
+}
+
+/**
+ * Find value in the document by pointer
+ * @param doc - document to look in
+ * @param pointer - "#/components/schemas/Pet"
+ * @param ref - full reference for error messages (e.g. "./pets.yaml#/Pet")
+ * @throws Error with the segment that could not be found
+ */
+export function resolveJsonPointer(doc: any, pointer: string, ref: string = pointer): any {
+    const segments = parseJsonPointer(pointer)
+    let value = doc
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i]
+        if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, segment)) {
+            const parent = compileJsonPointer(segments.slice(0, i))
+            throw new Error(`Can not resolve ref '${ref}': segment '${segment}' not found in '${parent}'`)
+        }
+        value = value[segment]
+    }
+    return value
+}
+
+function decodeFragment(fragment: string): string {
+    try {
+        return decodeURIComponent(fragment)
+    } catch (error) {
+        // Not percent-encoded, e.g. a literal "%" in the name
+        return fragment
+    }
+}
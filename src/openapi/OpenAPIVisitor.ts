@@ -2,15 +2,73 @@ import {OpenAPIV3} from "openapi-types";
 
 export type OperationContext = {
     pattern: string,
+    /**
+     * JSON pointer of the operation, e.g. "#/paths/~1pets/get"
+     */
+    pointer: string,
     path: OpenAPIV3.PathItemObject,
     method: OpenAPIV3.HttpMethods,
+    /**
+     * Effective tags of the operation - ['default'] if operation has no tags
+     */
+    tags: string[],
+    /**
+     * Effective parameters of the operation - path-level parameters merged with operation-level ones
+     */
+    parameters: (OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject)[],
 }
 
+export type PathItemContext = {
+    pattern: string,
+    /**
+     * JSON pointer of the path item, e.g. "#/paths/~1pets"
+     */
+    pointer: string,
+}
+
+export type NodeContext = {
+    /**
+     * JSON pointer of the visited node, e.g. "#/paths/~1pets/get/parameters/0"
+     */
+    pointer: string,
+    /**
+     * Operation the node belongs to (not set for path-level parameters and components)
+     */
+    operation?: OperationContext,
+    /**
+     * Name of the node in "components" (e.g. "Pet" for "#/components/schemas/Pet")
+     */
+    name?: string,
+}
+
+export type ResponseContext = NodeContext & {
+    /**
+     * Status code of the response - "200", "4XX" or "default" (not set for components)
+     */
+    status?: string,
+}
+
+/**
+ * Nodes are passed as they are in the document - parameters, request bodies and responses
+ * can be references, resolve them with RefResolver if needed.
+ */
 export interface OpenAPIVisitor {
     visitDocument?(doc: OpenAPIV3.Document): void;
 
+    visitPathItem?(pathItem: OpenAPIV3.PathItemObject, context: PathItemContext): void;
+
     visitOperation?(operation: OpenAPIV3.OperationObject, context: OperationContext): void;
 
+    visitParameter?(parameter: OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject, context: NodeContext): void;
+
+    visitRequestBody?(requestBody: OpenAPIV3.ReferenceObject | OpenAPIV3.RequestBodyObject, context: NodeContext): void;
+
+    visitResponse?(response: OpenAPIV3.ReferenceObject | OpenAPIV3.ResponseObject, context: ResponseContext): void;
+
+    visitSchema?(schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject, context: NodeContext): void;
+
+    visitSecurityScheme?(scheme: OpenAPIV3.ReferenceObject | OpenAPIV3.SecuritySchemeObject, context: NodeContext): void;
+
     visitTag?(tag: OpenAPIV3.TagObject): void;
 
     finish?(): void;
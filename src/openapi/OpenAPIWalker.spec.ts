@@ -0,0 +1,80 @@
+import {OpenAPIWalker} from "./OpenAPIWalker";
+import {NodeContext, OpenAPIVisitor, OperationContext, PathItemContext, ResponseContext} from "./OpenAPIVisitor";
+import {OpenAPIV3} from "openapi-types";
+
+class RecordingVisitor implements OpenAPIVisitor {
+    visited: string[] = []
+
+    visitPathItem(pathItem: OpenAPIV3.PathItemObject, context: PathItemContext) {
+        this.visited.push(`path ${context.pointer}`)
+    }
+
+    visitOperation(operation: OpenAPIV3.OperationObject, context: OperationContext) {
+        this.visited.push(`operation ${context.pointer}`)
+    }
+
+    visitParameter(parameter: OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject, context: NodeContext) {
+        this.visited.push(`parameter ${context.pointer} ${context.operation?.method || ''}`.trim())
+    }
+
+    visitRequestBody(requestBody: OpenAPIV3.ReferenceObject | OpenAPIV3.RequestBodyObject, context: NodeContext) {
+        this.visited.push(`requestBody ${context.pointer}`)
+    }
+
+    visitResponse(response: OpenAPIV3.ReferenceObject | OpenAPIV3.ResponseObject, context: ResponseContext) {
+        this.visited.push(`response ${context.pointer} ${context.status || ''}`.trim())
+    }
+
+    visitSchema(schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject, context: NodeContext) {
+        this.visited.push(`schema ${context.pointer} ${context.name}`)
+    }
+
+    visitSecurityScheme(scheme: OpenAPIV3.ReferenceObject | OpenAPIV3.SecuritySchemeObject, context: NodeContext) {
+        this.visited.push(`securityScheme ${context.pointer} ${context.name}`)
+    }
+
+    visitTag(tag: OpenAPIV3.TagObject) {
+        this.visited.push(`tag ${tag.name}`)
+    }
+}
+
+test('walker visits nodes with their pointers', () => {
+    const doc = {
+        paths: {
+            '/users/{id}': {
+                parameters: [{name: 'id', in: 'path', required: true, schema: {type: 'string'}}],
+                put: {
+                    parameters: [{$ref: '#/components/parameters/verbose'}],
+                    requestBody: {content: {'application/json': {schema: {$ref: '#/components/schemas/User'}}}},
+                    responses: {
+                        '200': {description: 'OK'},
+                        'default': {$ref: '#/components/responses/Error'},
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {User: {type: 'object'}},
+            parameters: {verbose: {name: 'verbose', in: 'query', schema: {type: 'boolean'}}},
+            responses: {Error: {description: 'Error'}},
+            securitySchemes: {'api/key': {type: 'apiKey', in: 'header', name: 'X-API-Key'}},
+        },
+        tags: [{name: 'User'}],
+    }
+    const visitor = new RecordingVisitor()
+    new OpenAPIWalker(doc).walk(visitor)
+    expect(visitor.visited).toEqual([
+        'path #/paths/~1users~1{id}',
+        'parameter #/paths/~1users~1{id}/parameters/0',
+        'operation #/paths/~1users~1{id}/put',
+        'parameter #/paths/~1users~1{id}/put/parameters/0 put',
+        'requestBody #/paths/~1users~1{id}/put/requestBody',
+        'response #/paths/~1users~1{id}/put/responses/200 200',
+        'response #/paths/~1users~1{id}/put/responses/default default',
+        'schema #/components/schemas/User User',
+        'parameter #/components/parameters/verbose',
+        'response #/components/responses/Error',
+        'securityScheme #/components/securitySchemes/api~1key api/key',
+        'tag User',
+    ])
+});
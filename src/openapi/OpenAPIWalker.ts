@@ -1,5 +1,6 @@
 import {OpenAPIV3} from "openapi-types";
-import {OpenAPIVisitor} from "./OpenAPIVisitor";
+import {OpenAPIVisitor, OperationContext} from "./OpenAPIVisitor";
+import {compileJsonPointer} from "./JsonPointer";
 
 const HttpMethods: string[] = Object.values(OpenAPIV3.HttpMethods);
 
@@ -14,6 +15,7 @@ export class OpenAPIWalker {
     walk(visitor: OpenAPIVisitor) {
         this.walkDocument(visitor);
         this.walkPaths(visitor);
+        this.walkComponents(visitor);
         this.walkTags(visitor);
         if (visitor.finish) {
             visitor.finish();
@@ -38,54 +40,143 @@ export class OpenAPIWalker {
         }
         for (const path in paths) {
             const pathItem: OpenAPIV3.PathItemObject = paths[path] as OpenAPIV3.PathItemObject;
-            // Extract path-level parameters
-            const pathLevelParameters = pathItem.parameters || [];
-            
+            const pointer = compileJsonPointer(['paths', path]);
+            if (visitor.visitPathItem) {
+                visitor.visitPathItem(pathItem, {pattern: path, pointer: pointer});
+            }
+            this.walkParameters(visitor, pathItem.parameters, pointer);
+
             let method: string;
             let operation: any;
             for ([method, operation] of Object.entries(pathItem)) {
                 if (!HttpMethods.includes(method)) {
                     continue;
                 }
-                if (!operation.tags || operation.tags.length === 0) {
-                    operation.tags = ['default']
+                if (!operation) {
+                    continue;
                 }
-                if (operation && visitor.visitOperation) {
-                    // Merge path-level parameters with operation-level parameters
-                    // Operation-level parameters override path-level ones with the same name
-                    if (pathLevelParameters.length > 0) {
-                        const operationParameters = operation.parameters || [];
-                        
-                        // Create a map of operation parameter names for quick lookup
-                        const operationParamNames = new Set(
-                            operationParameters.map((p: any) => {
-                                // Handle both ReferenceObject and ParameterObject
-                                if ('$ref' in p) {
-                                    return null; // Will be resolved later
-                                }
-                                return p.name;
-                            }).filter(Boolean)
-                        );
-                        
-                        // Add path-level parameters that are not overridden by operation-level ones
-                        const mergedParameters = [
-                            ...pathLevelParameters.filter((p) => {
-                                if ('$ref' in p) {
-                                    return true; // Include references, they'll be resolved later
-                                }
-                                return !operationParamNames.has(p.name);
-                            }),
-                            ...operationParameters
-                        ];
-                        
-                        operation.parameters = mergedParameters;
-                    }
-                    
-                    const context = {pattern: path, path: pathItem, method: method as OpenAPIV3.HttpMethods};
+                const context: OperationContext = {
+                    pattern: path,
+                    pointer: compileJsonPointer(['paths', path, method]),
+                    path: pathItem,
+                    method: method as OpenAPIV3.HttpMethods,
+                    tags: this.operationTags(operation),
+                    parameters: this.operationParameters(pathItem, operation),
+                };
+                if (visitor.visitOperation) {
                     visitor.visitOperation(operation, context);
                 }
+                this.walkOperation(visitor, operation, context);
+            }
+        }
+    }
+
+    private walkOperation(visitor: OpenAPIVisitor, operation: OpenAPIV3.OperationObject, context: OperationContext) {
+        this.walkParameters(visitor, operation.parameters, context.pointer, context);
+        if (operation.requestBody && visitor.visitRequestBody) {
+            const pointer = `${context.pointer}/requestBody`;
+            visitor.visitRequestBody(operation.requestBody, {pointer: pointer, operation: context});
+        }
+        if (operation.responses && visitor.visitResponse) {
+            for (const [status, response] of Object.entries(operation.responses)) {
+                const pointer = `${context.pointer}/responses/${status}`;
+                visitor.visitResponse(response, {pointer: pointer, operation: context, status: status});
+            }
+        }
+    }
+
+    private walkParameters(
+        visitor: OpenAPIVisitor,
+        parameters: (OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject)[] | undefined,
+        parentPointer: string,
+        operation?: OperationContext,
+    ) {
+        if (!parameters || !visitor.visitParameter) {
+            return;
+        }
+        parameters.forEach((parameter, index) => {
+            const pointer = `${parentPointer}/parameters/${index}`;
+            visitor.visitParameter!!(parameter, {pointer: pointer, operation: operation});
+        });
+    }
+
+    private walkComponents(visitor: OpenAPIVisitor, components?: OpenAPIV3.ComponentsObject) {
+        if (!components) {
+            components = this.doc.components;
+        }
+        if (!components) {
+            return;
+        }
+        const pointer = (section: string, name: string) => compileJsonPointer(['components', section, name]);
+        if (visitor.visitSchema) {
+            for (const [name, schema] of Object.entries(components.schemas || {})) {
+                visitor.visitSchema(schema, {pointer: pointer('schemas', name), name: name});
             }
         }
+        if (visitor.visitParameter) {
+            for (const [name, parameter] of Object.entries(components.parameters || {})) {
+                visitor.visitParameter(parameter, {pointer: pointer('parameters', name), name: name});
+            }
+        }
+        if (visitor.visitRequestBody) {
+            for (const [name, requestBody] of Object.entries(components.requestBodies || {})) {
+                visitor.visitRequestBody(requestBody, {pointer: pointer('requestBodies', name), name: name});
+            }
+        }
+        if (visitor.visitResponse) {
+            for (const [name, response] of Object.entries(components.responses || {})) {
+                visitor.visitResponse(response, {pointer: pointer('responses', name), name: name});
+            }
+        }
+        if (visitor.visitSecurityScheme) {
+            for (const [name, scheme] of Object.entries(components.securitySchemes || {})) {
+                visitor.visitSecurityScheme(scheme, {pointer: pointer('securitySchemes', name), name: name});
+            }
+        }
+    }
+
+    private operationTags(operation: OpenAPIV3.OperationObject): string[] {
+        if (!operation.tags || operation.tags.length === 0) {
+            return ['default']
+        }
+        return operation.tags
+    }
+
+    /**
+     * Merge path-level parameters with operation-level parameters
+     * Operation-level parameters override path-level ones with the same name
+     */
+    private operationParameters(
+        pathItem: OpenAPIV3.PathItemObject,
+        operation: OpenAPIV3.OperationObject,
+    ): (OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject)[] {
+        const pathLevelParameters = pathItem.parameters || [];
+        const operationParameters = operation.parameters || [];
+        if (pathLevelParameters.length === 0) {
+            return operationParameters;
+        }
+
+        // Create a map of operation parameter names for quick lookup
+        const operationParamNames = new Set(
+            operationParameters.map((p: any) => {
+                // Handle both ReferenceObject and ParameterObject
+                if ('$ref' in p) {
+                    return null; // Will be resolved later
+                }
+                return p.name;
+            }).filter(Boolean)
+        );
+
+        // Add path-level parameters that are not overridden by operation-level ones
+        return [
+            ...pathLevelParameters.filter((p) => {
+                if ('$ref' in p) {
+                    return true; // Include references, they'll be resolved later
+                }
+                return !operationParamNames.has(p.name);
+            }),
+            ...operationParameters
+        ];
     }
 
     private walkTags(visitor: OpenAPIVisitor, tags?: OpenAPIV3.TagObject[]) {
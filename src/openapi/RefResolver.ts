@@ -1,7 +1,19 @@
 import {OpenAPIV3} from "openapi-types";
 import * as lodash from "lodash";
+import {isNullSchema} from "./utils";
+import {resolveJsonPointer} from "./JsonPointer";
+import {SchemaMerger} from "./SchemaMerger";
+
+/**
+ * OpenAPI 3.1 makes references nullable with anyOf: [{$ref: ...}, {type: "null"}]
+ */
+function firstNonNull(schemas: any[]): any {
+    return schemas.find((s) => !isNullSchema(s)) || schemas[0]
+}
 
 export class RefResolver {
+    private readonly merger = new SchemaMerger()
+
     constructor(private doc: any) {
 
     }
@@ -9,30 +21,42 @@ export class RefResolver {
     /**
      * Resolve ref and return it if found
      * @param schema
+     * @param path - refs that are being resolved up the tree, used to detect cycles in recursive schemas
      */
-    resolveRef<T>(schema: OpenAPIV3.ReferenceObject | T): [T, string[]?] {
+    resolveRef<T>(schema: OpenAPIV3.ReferenceObject | T, path: string[] = []): [T, string[]?] {
         // @ts-ignore
-        if ("properties" in schema) {
+        if ("properties" in schema && !("allOf" in schema)) {
             return [schema as T, undefined]
         }
         // @ts-ignore
         if ("oneOf" in schema) {
             // @ts-ignore
-            schema = schema.oneOf[0]
+            schema = firstNonNull(schema.oneOf)
         }
         // @ts-ignore
         if ("anyOf" in schema) {
             // @ts-ignore
-            schema = schema.anyOf[0]
+            schema = firstNonNull(schema.anyOf)
         }
         // @ts-ignore
         if ("allOf" in schema) {
+            // Own keywords next to "allOf" (e.g. "properties" of the extension) are merged last
             // @ts-ignore
-            const results = schema.allOf.map((s) => this.resolveRef(s));
+            const {allOf, nullable, ...own} = schema;
+            // Skip members that refer back to the schema being resolved
+            const members = (allOf as any[]).filter((s: any) => !('$ref' in s && path.includes(s.$ref)));
+            const results = members.map((s: any) => this.resolveRef(s, path));
             const schemas = results.map((r: any) => r[0]);
             const refs = results.map((r: any) => r[1]);
             const refsFlat = lodash.flatten<string>(refs);
-            const object = Object.assign({}, ...schemas);
+            // Own "nullable" is not one more constraint - it makes the whole schema nullable,
+            // OpenAPI 3.0 way to make a reference nullable: allOf: [{$ref: ...}], nullable: true
+            const {nullable: membersNullable, ...merged} = this.merger.merge(schemas);
+            const object = this.merger.merge([merged, own]);
+            const objectNullable = nullable !== undefined ? nullable : membersNullable;
+            if (objectNullable !== undefined) {
+                object.nullable = objectNullable;
+            }
             return [object as T, refsFlat]
         }
         // @ts-ignore
@@ -41,28 +65,35 @@ export class RefResolver {
             // Remove $ref from schema, add all other properties
             const {$ref, ...rest} = schema;
             Object.assign(rest, schemaResolved);
+            // Referenced "Base + Extension" model, oneOf / anyOf stay as they are for variants.
+            // Only the ref itself is up the tree - members can be reused by siblings (e.g. "mother: Pet" in "Dog")
+            if ('allOf' in rest) {
+                const [merged] = this.resolveRef<T>(rest as T, [...path, $ref])
+                return [merged, [$ref]]
+            }
             return [rest as T, [$ref]]
         }
         return [schema as T, undefined]
     }
 
-    resolve<T>(schema: OpenAPIV3.ReferenceObject | T): T {
-        return this.resolveRef(schema)[0]
+    resolve<T>(schema: OpenAPIV3.ReferenceObject | T, path: string[] = []): T {
+        return this.resolveRef(schema, path)[0]
     }
 
-    private findRef(ref: string): OpenAPIV3.SchemaObject {
-        const refPath = ref.split('/').slice(1);
-        let schema: any = this.doc;
-        for (const path of refPath) {
-            // @ts-ignore
-            schema = schema[path];
-            if (!schema) {
-                throw new Error(`Schema not found for ref '${ref}'`);
-            }
+    /**
+     * Find the value by "$ref" - schemas, parameters, request bodies, responses, path items, etc.
+     */
+    private findRef(ref: string, chain: string[] = []): any {
+        if (!ref.startsWith('#')) {
+            throw new Error(`External ref '${ref}' is not supported, bundle the spec with 'bundleSpec' first`);
         }
-        if ('$ref' in schema) {
-            return this.findRef(schema['$ref']);
+        if (chain.includes(ref)) {
+            throw new Error(`Circular ref '${ref}': ${[...chain, ref].join(' -> ')}`);
+        }
+        const value = resolveJsonPointer(this.doc, ref);
+        if (value && typeof value === 'object' && '$ref' in value) {
+            return this.findRef(value['$ref'], [...chain, ref]);
         }
-        return schema;
+        return value;
     }
 }
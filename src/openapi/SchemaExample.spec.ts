@@ -0,0 +1,32 @@
+import {SchemaExample} from "./SchemaExample";
+
+const doc = {
+    openapi: '3.0.0',
+    info: {title: 'Users', version: '1.0.0'},
+    paths: {},
+    components: {
+        schemas: {
+            User: {
+                type: 'object',
+                properties: {
+                    id: {type: 'integer', readOnly: true, example: 1},
+                    name: {type: 'string', example: 'John'},
+                    password: {type: 'string', writeOnly: true, example: 'secret'},
+                },
+            },
+        },
+    },
+};
+const schema = {$ref: '#/components/schemas/User'}
+
+test('example with all properties', () => {
+    expect(new SchemaExample(doc).extractExample(schema)).toEqual({id: 1, name: 'John', password: 'secret'})
+});
+
+test('request example without readOnly properties', () => {
+    expect(new SchemaExample(doc, 'request').extractExample(schema)).toEqual({name: 'John', password: 'secret'})
+});
+
+test('response example without writeOnly properties', () => {
+    expect(new SchemaExample(doc, 'response').extractExample(schema)).toEqual({id: 1, name: 'John'})
+});
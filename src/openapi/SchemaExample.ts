@@ -1,60 +1,122 @@
 import {RefResolver} from "./RefResolver";
-import {OpenAPIV3} from "openapi-types";
+import {OpenAPIV3, OpenAPIV3_1} from "openapi-types";
+import * as lodash from "lodash";
+import {isNullSchema} from "./utils";
 
-class SchemaExampleBuilder {
-    private visitedRefs: Set<string> = new Set<string>();
+/**
+ * Side of the example, properties that don't go that way are left out:
+ * - "request" - server-owned "readOnly" properties
+ * - "response" - "writeOnly" properties (e.g. passwords) the server never returns
+ */
+export type ExampleDirection = 'request' | 'response'
 
-    constructor(private resolver: RefResolver) {
+class SchemaExampleBuilder {
+    constructor(private resolver: RefResolver, private direction?: ExampleDirection) {
     }
 
-    build(schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject): any {
+    /**
+     * @param schema
+     * @param path - refs from the root to the current schema.
+     * Only refs up the tree are cycles, the same schema can be reused by siblings.
+     */
+    build(schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject, path: string[] = []): any {
         let refs: string[] | undefined
-        [schema, refs] = this.resolver.resolveRef(schema)
+        [schema, refs] = this.resolver.resolveRef(schema, path)
 
         if (refs) {
             // Prevent infinite recursion
-            for (const ref of refs) {
-                if (this.visitedRefs.has(ref)) {
-                    return {}
-                }
-                this.visitedRefs.add(ref);
+            if (refs.some((ref) => path.includes(ref))) {
+                return {}
             }
+            path = [...path, ...refs]
         }
         if ('oneOf' in schema) {
-            return this.build(schema.oneOf!![0]);
-        }
-        if ('allOf' in schema) {
-            const examples = schema.allOf!!.map((s) => this.build(s));
-            return Object.assign({}, ...examples);
+            return this.build(schema.oneOf!!.find((s) => !isNullSchema(s)) || schema.oneOf!![0], path);
         }
         if (schema.example !== undefined) {
-            return schema.example;
+            return this.omitSkipped(schema.example, schema, path);
+        }
+        // OpenAPI 3.1
+        const schema31 = schema as OpenAPIV3_1.SchemaObject;
+        if (schema31.examples && schema31.examples.length > 0) {
+            return this.omitSkipped(schema31.examples[0], schema, path);
+        }
+        if (schema31.const !== undefined) {
+            return schema31.const;
         }
         if (schema.default !== undefined) {
-            return schema.default;
+            return this.omitSkipped(schema.default, schema, path);
         }
         if (schema.properties) {
             const obj: any = {};
             for (const key in schema.properties) {
-                obj[key] = this.build(schema.properties[key]);
+                if (this.skipped(schema.properties[key], path)) {
+                    continue;
+                }
+                obj[key] = this.build(schema.properties[key], path);
             }
             return obj;
         }
+        // OpenAPI 3.1 tuples
+        if ('prefixItems' in schema) {
+            const prefixItems: OpenAPIV3.SchemaObject[] = (schema as any).prefixItems;
+            return prefixItems.map((s) => this.build(s, path));
+        }
         if ('items' in schema && schema.items) {
-            return [this.build(schema.items)];
+            return [this.build(schema.items, path)];
         }
         return undefined;
     }
+
+    private skipped(property: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject, path: string[]): boolean {
+        if (!this.direction) {
+            return false;
+        }
+        const resolved = this.resolver.resolve<OpenAPIV3.SchemaObject>(property, path);
+        return this.direction === 'request' ? !!resolved.readOnly : !!resolved.writeOnly;
+    }
+
+    /**
+     * Explicit examples have all properties, drop the skipped ones at any depth
+     */
+    private omitSkipped(example: any, schema: OpenAPIV3.SchemaObject, path: string[]): any {
+        if (!this.direction) {
+            return example;
+        }
+        if (Array.isArray(example) && 'items' in schema && schema.items) {
+            const items = this.resolver.resolve<OpenAPIV3.SchemaObject>(schema.items, path);
+            return example.map((item) => this.omitSkipped(item, items, path));
+        }
+        if (!lodash.isPlainObject(example) || !schema.properties) {
+            return example;
+        }
+        const obj: any = {};
+        for (const [key, value] of Object.entries(example)) {
+            const property = schema.properties[key];
+            if (!property) {
+                obj[key] = value;
+                continue;
+            }
+            if (this.skipped(property, path)) {
+                continue;
+            }
+            obj[key] = this.omitSkipped(value, this.resolver.resolve<OpenAPIV3.SchemaObject>(property, path), path);
+        }
+        return obj;
+    }
 }
 
 export class SchemaExample {
     private resolver: RefResolver;
 
-    constructor(doc: any) {
+    /**
+     * @param direction - leave out properties that don't go that way, all properties by default
+     */
+    constructor(doc: any, private direction?: ExampleDirection) {
         this.resolver = new RefResolver(doc);
     }
 
     extractExample(schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject): any {
-        return new SchemaExampleBuilder(this.resolver).build(schema);
+        return new SchemaExampleBuilder(this.resolver, this.direction).build(schema);
     }
 }
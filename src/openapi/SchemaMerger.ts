@@ -0,0 +1,102 @@
+import {OpenAPIV3} from "openapi-types";
+import * as lodash from "lodash";
+
+type Schema = OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject;
+
+/**
+ * Lower bounds - the biggest one wins
+ */
+const MIN_KEYWORDS = ['minimum', 'minLength', 'minItems', 'minProperties']
+
+/**
+ * Upper bounds - the smallest one wins
+ */
+const MAX_KEYWORDS = ['maximum', 'maxLength', 'maxItems', 'maxProperties']
+
+/**
+ * Merges "allOf" members into one schema the way a value valid for all of them looks like:
+ * - "properties" are combined, the same property in several members becomes "allOf" of them
+ * - "required" lists are combined
+ * - constraints are intersected - "type", "enum", min* / max* bounds, "nullable" (missing one is false)
+ * - the rest (description, example, format, etc.) is taken from the last member that has it
+ *
+ * Members must be resolved already, nested schemas (properties, items) can stay refs.
+ */
+export class SchemaMerger {
+    merge(schemas: any[]): any {
+        const [first, ...rest] = schemas
+        return rest.reduce((merged, schema) => this.mergeTwo(merged, schema), {...first})
+    }
+
+    private mergeTwo(a: any, b: any): any {
+        const merged: any = {...a, ...b}
+        if (a.properties && b.properties) {
+            merged.properties = {...a.properties}
+            for (const [key, property] of Object.entries<Schema>(b.properties)) {
+                const existing = a.properties[key]
+                merged.properties[key] = existing ? {allOf: [existing, property]} : property
+            }
+        }
+        if (a.required && b.required) {
+            merged.required = lodash.union(a.required, b.required)
+        }
+        if (a.items && b.items) {
+            merged.items = {allOf: [a.items, b.items]}
+        }
+        if (a.type !== undefined && b.type !== undefined) {
+            merged.type = this.mergeType(a.type, b.type)
+        }
+        if (a.enum && b.enum) {
+            const common = lodash.intersectionWith(a.enum, b.enum, lodash.isEqual)
+            // Contradicting enums - keep the last one rather than allow nothing
+            merged.enum = common.length > 0 ? common : b.enum
+        }
+        for (const keyword of MIN_KEYWORDS) {
+            if (a[keyword] !== undefined && b[keyword] !== undefined) {
+                merged[keyword] = Math.max(a[keyword], b[keyword])
+            }
+        }
+        for (const keyword of MAX_KEYWORDS) {
+            if (a[keyword] !== undefined && b[keyword] !== undefined) {
+                merged[keyword] = Math.min(a[keyword], b[keyword])
+            }
+        }
+        // Missing "nullable" is false - null is valid only if all members allow it
+        if ('nullable' in a || 'nullable' in b) {
+            merged.nullable = !!a.nullable && !!b.nullable
+        }
+        if (a.readOnly || b.readOnly) {
+            merged.readOnly = true
+        }
+        if (a.writeOnly || b.writeOnly) {
+            merged.writeOnly = true
+        }
+        if (lodash.isPlainObject(a.example) && lodash.isPlainObject(b.example)) {
+            merged.example = lodash.merge({}, a.example, b.example)
+        }
+        return merged
+    }
+
+    /**
+     * Types allowed by both, integer is a number too.
+     * OpenAPI 3.1 type lists stay lists - ["string", "null"] and "string" is "string"
+     */
+    private mergeType(a: string | string[], b: string | string[]): string | string[] {
+        const left: string[] = lodash.castArray(a)
+        const right: string[] = lodash.castArray(b)
+        const types = lodash.uniq(left.flatMap((type) => {
+            if (right.includes(type)) {
+                return [type]
+            }
+            if ((type === 'number' && right.includes('integer')) || (type === 'integer' && right.includes('number'))) {
+                return ['integer']
+            }
+            return []
+        }))
+        if (types.length === 0) {
+            // Contradicting types - keep the last one
+            return b
+        }
+        return types.length === 1 ? types[0] : types
+    }
+}
@@ -0,0 +1,151 @@
+import {OpenAPI} from "openapi-types";
+import * as lodash from "lodash";
+import {basename, dirname, extname, resolve} from "path";
+import {parseContent, parseSpec, readSpecFile} from "./SpecLoader";
+import {parseJsonPointer, resolveJsonPointer} from "./JsonPointer";
+
+/**
+ * Reads files referenced from the spec (e.g. "./schemas/Pet.yaml")
+ */
+export interface IFileReader {
+    /**
+     * Content of the file
+     * @param path - absolute path to the file
+     */
+    read(path: string): string
+}
+
+/**
+ * Default behaviour - read files from the local file system
+ */
+export class FileSystemReader implements IFileReader {
+    read(path: string): string {
+        return readSpecFile(path)
+    }
+}
+
+/**
+ * Bundles a spec split into multiple files into a single self-contained document.
+ *
+ * External references (./schemas/Pet.yaml#/Pet) are inlined,
+ * relative to the file they are declared in.
+ * Recursive external schemas are moved to "components.schemas" and referenced from there.
+ */
+export class SpecBundler {
+    private root: string = ''
+    private files: Map<string, any> = new Map()
+    private inProgress: Set<string> = new Set()
+    private hoisted: Map<string, string> = new Map()
+    private schemas: { [name: string]: any } = {}
+
+    constructor(private reader: IFileReader = new FileSystemReader()) {
+    }
+
+    bundle(path: string): OpenAPI.Document {
+        this.root = resolve(path)
+        this.files = new Map()
+        this.inProgress = new Set()
+        this.hoisted = new Map()
+        this.schemas = {}
+
+        const content = this.reader.read(this.root)
+        const doc = parseSpec(content, path)
+        this.files.set(this.root, doc)
+
+        const bundled = this.walk(doc, this.root)
+        if (this.hoisted.size > 0) {
+            bundled.components = bundled.components || {}
+            bundled.components.schemas = {...bundled.components.schemas, ...this.schemas}
+        }
+        return bundled
+    }
+
+    private walk(node: any, file: string): any {
+        if (Array.isArray(node)) {
+            return node.map((item) => this.walk(item, file))
+        }
+        if (!lodash.isPlainObject(node)) {
+            return node
+        }
+        if (typeof node.$ref === 'string') {
+            return this.walkRef(node, file)
+        }
+        return lodash.mapValues(node, (value) => this.walk(value, file))
+    }
+
+    private walkRef(node: any, file: string): any {
+        const {$ref, ...rest} = node
+        const siblings = lodash.mapValues(rest, (value) => this.walk(value, file))
+        const [refFile, pointer = ''] = $ref.split('#', 2)
+        if (!refFile && file === this.root) {
+            // Internal reference in the main document stays as is
+            return {$ref, ...siblings}
+        }
+
+        const target = refFile ? resolve(dirname(file), refFile) : file
+        const resolved = this.inline(target, pointer)
+        if (lodash.isEmpty(siblings)) {
+            return resolved
+        }
+        return {...resolved, ...siblings}
+    }
+
+    private inline(file: string, pointer: string): any {
+        const key = `${file}#${pointer}`
+        if (this.hoisted.has(key)) {
+            return this.hoistedRef(key)
+        }
+        if (this.inProgress.has(key)) {
+            // Recursive reference - can not be inlined
+            this.hoist(key, file, pointer)
+            return this.hoistedRef(key)
+        }
+
+        this.inProgress.add(key)
+        const target = resolveJsonPointer(this.load(file), `#${pointer}`, key)
+        const result = this.walk(target, file)
+        this.inProgress.delete(key)
+
+        if (this.hoisted.has(key)) {
+            this.schemas[this.hoisted.get(key)!!] = result
+            return this.hoistedRef(key)
+        }
+        return result
+    }
+
+    private load(file: string): any {
+        if (!this.files.has(file)) {
+            const content = this.reader.read(file)
+            this.files.set(file, parseContent(content, file))
+        }
+        return this.files.get(file)
+    }
+
+    private hoist(key: string, file: string, pointer: string) {
+        const segments = parseJsonPointer(`#${pointer}`)
+        const base = segments.length > 0 ? segments[segments.length - 1] : basename(file, extname(file))
+        const existing = this.files.get(this.root)?.components?.schemas || {}
+        let name = base
+        let index = 1
+        while (name in existing || name in this.schemas) {
+            index += 1
+            name = `${base}${index}`
+        }
+        this.hoisted.set(key, name)
+        // Reserve the name until the schema is resolved
+        this.schemas[name] = {}
+    }
+
+    private hoistedRef(key: string): any {
+        return {$ref: `#/components/schemas/${this.hoisted.get(key)}`}
+    }
+}
+
+/**
+ * Load spec split into multiple files and bundle it into a single self-contained document
+ * @param path - path to the main spec file
+ * @param reader - reader for the referenced files
+ */
+export function bundleSpec(path: string, reader?: IFileReader): OpenAPI.Document {
+    return new SpecBundler(reader).bundle(path)
+}
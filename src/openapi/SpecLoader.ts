@@ -0,0 +1,96 @@
+import {OpenAPI} from "openapi-types";
+import {readFileSync} from "fs";
+import * as YAML from "yaml";
+
+/**
+ * Parse OpenAPI (or Swagger 2.0) spec from YAML or JSON content.
+ * JSON is parsed strictly, so errors point to the exact line and column.
+ * @param content - YAML or JSON text
+ * @param source - name of the source, used in error messages
+ */
+export function parseSpec(content: string, source: string = '<string>'): OpenAPI.Document {
+    const doc = parseContent(content, source)
+    validateVersion(doc, source)
+    return doc
+}
+
+/**
+ * Parse YAML or JSON content without any validation (e.g. a file with schemas referenced from the spec)
+ * @param content - YAML or JSON text
+ * @param source - name of the source, used in error messages
+ */
+export function parseContent(content: string, source: string = '<string>'): any {
+    const json = looksLikeJson(content)
+    const yamlDocument = YAML.parseDocument(content, json ? {schema: 'json'} : {})
+    if (yamlDocument.errors.length > 0) {
+        const error = yamlDocument.errors[0]
+        const reason = error.message.split(' at line ')[0]
+        const position = error.linePos ? ` at line ${error.linePos[0].line}, column ${error.linePos[0].col}` : ''
+        throw new Error(`Failed to parse ${source}${position}: ${reason}`)
+    }
+    return yamlDocument.toJS({maxAliasCount: -1})
+}
+
+/**
+ * Load OpenAPI (or Swagger 2.0) spec from a file path or from YAML/JSON content
+ * @param pathOrContent - path to .yaml/.yml/.json file or the spec content itself
+ */
+export function loadSpec(pathOrContent: string): OpenAPI.Document {
+    if (isContent(pathOrContent)) {
+        return parseSpec(pathOrContent)
+    }
+    return parseSpec(readSpecFile(pathOrContent), pathOrContent)
+}
+
+export function readSpecFile(path: string): string {
+    try {
+        return readFileSync(path, 'utf-8')
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            throw new Error(`Spec file '${path}' not found`)
+        }
+        throw error
+    }
+}
+
+/**
+ * Multi-line strings or strings starting with "{" or "openapi:"/"swagger:" are content, the rest are paths
+ */
+function isContent(value: string): boolean {
+    return value.includes('\n') || looksLikeJson(value) || /^\s*["']?(openapi|swagger)["']?\s*:/.test(value)
+}
+
+function looksLikeJson(content: string): boolean {
+    return content.trimStart().startsWith('{')
+}
+
+function validateVersion(doc: any, source: string) {
+    if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+        throw new Error(`Invalid spec in ${source}: expected an object at the top level`)
+    }
+    if (doc.openapi !== undefined) {
+        doc.openapi = normalizeVersion(doc.openapi)
+        if (!/^3\.[01](\.\d+)?$/.test(doc.openapi)) {
+            throw new Error(`Unsupported OpenAPI version '${doc.openapi}' in ${source}, expected 3.0.x or 3.1.x`)
+        }
+        return
+    }
+    if (doc.swagger !== undefined) {
+        doc.swagger = normalizeVersion(doc.swagger)
+        if (doc.swagger !== '2.0') {
+            throw new Error(`Unsupported Swagger version '${doc.swagger}' in ${source}, expected 2.0`)
+        }
+        return
+    }
+    throw new Error(`Invalid spec in ${source}: neither 'openapi' nor 'swagger' version field found`)
+}
+
+/**
+ * Unquoted "swagger: 2.0" in YAML is a number
+ */
+function normalizeVersion(version: any): string {
+    if (typeof version === 'number') {
+        return version.toFixed(1)
+    }
+    return `${version}`
+}
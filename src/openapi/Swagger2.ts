@@ -0,0 +1,412 @@
+import {OpenAPIV2, OpenAPIV3} from "openapi-types";
+import * as lodash from "lodash";
+import {parseJsonPointer} from "./JsonPointer";
+
+const HttpMethods: string[] = Object.values(OpenAPIV3.HttpMethods);
+
+/**
+ * Keywords that are shared by Swagger 2.0 non-body parameters and OpenAPI v3 schemas
+ */
+const SCHEMA_KEYWORDS = [
+    'type', 'format', 'items', 'default', 'enum',
+    'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+    'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'multipleOf',
+]
+
+const DEFAULT_CONSUMES = ['application/json']
+const DEFAULT_PRODUCES = ['application/json']
+
+export function isSwagger2(doc: any): doc is OpenAPIV2.Document {
+    return !!doc && typeof doc.swagger === 'string' && doc.swagger.startsWith('2.')
+}
+
+/**
+ * Upgrades Swagger 2.0 document to OpenAPI v3 in-process,
+ * so the rest of the pipeline can work with a single document shape.
+ *
+ * The input document is not modified.
+ */
+export class Swagger2Converter {
+    private readonly doc: any
+
+    constructor(doc: OpenAPIV2.Document) {
+        // All "$ref" are rewritten upfront, so the rest works on v3 pointers
+        this.doc = this.rewriteRefs(lodash.cloneDeep(doc))
+    }
+
+    convert(): OpenAPIV3.Document {
+        const doc = this.doc
+        const result: any = {
+            openapi: '3.0.3',
+            info: doc.info,
+            servers: this.servers(),
+            paths: this.paths(),
+            components: this.components(),
+        }
+        if (doc.tags) {
+            result.tags = doc.tags
+        }
+        if (doc.security) {
+            result.security = doc.security
+        }
+        if (doc.externalDocs) {
+            result.externalDocs = doc.externalDocs
+        }
+        Object.assign(result, this.extensions(doc))
+        return result
+    }
+
+    /**
+     * host + basePath + schemes => servers
+     */
+    private servers(): OpenAPIV3.ServerObject[] {
+        const basePath = this.doc.basePath || ''
+        if (!this.doc.host) {
+            return [{url: basePath || '/'}]
+        }
+        const schemes: string[] = this.doc.schemes || ['https']
+        return schemes.map((scheme) => ({url: `${scheme}://${this.doc.host}${basePath}`}))
+    }
+
+    private components(): OpenAPIV3.ComponentsObject {
+        const components: any = {}
+        if (this.doc.definitions) {
+            components.schemas = this.doc.definitions
+        }
+        const parameters: any = {}
+        const requestBodies: any = {}
+        for (const [name, parameter] of Object.entries<any>(this.doc.parameters || {})) {
+            if (parameter.in === 'body') {
+                requestBodies[name] = this.requestBody([parameter], DEFAULT_CONSUMES)
+            } else if (parameter.in === 'formData') {
+                // Can not be represented as a standalone component in v3,
+                // operations referencing it get it inlined
+                continue
+            } else {
+                parameters[name] = this.parameter(parameter)
+            }
+        }
+        if (!lodash.isEmpty(parameters)) {
+            components.parameters = parameters
+        }
+        if (!lodash.isEmpty(requestBodies)) {
+            components.requestBodies = requestBodies
+        }
+        if (this.doc.responses) {
+            components.responses = lodash.mapValues(
+                this.doc.responses,
+                (response: any) => this.response(response, this.doc.produces || DEFAULT_PRODUCES)
+            )
+        }
+        if (this.doc.securityDefinitions) {
+            components.securitySchemes = lodash.mapValues(
+                this.doc.securityDefinitions,
+                (scheme: any) => this.securityScheme(scheme)
+            )
+        }
+        return components
+    }
+
+    private paths(): OpenAPIV3.PathsObject {
+        const paths: any = {}
+        for (const [pattern, item] of Object.entries<any>(this.doc.paths || {})) {
+            const pathItem: any = {}
+            const pathParameters: any[] = item.parameters || []
+            for (const [key, value] of Object.entries<any>(item)) {
+                if (HttpMethods.includes(key)) {
+                    pathItem[key] = this.operation(value, pathParameters)
+                } else if (key === 'parameters') {
+                    // Body and form parameters are moved to operations' requestBody
+                    const parameters = this.regularParameters(value)
+                    if (parameters.length > 0) {
+                        pathItem.parameters = parameters.map((p) => this.parameter(p))
+                    }
+                } else {
+                    pathItem[key] = value
+                }
+            }
+            paths[pattern] = pathItem
+        }
+        return paths
+    }
+
+    private operation(operation: any, pathParameters: any[]): OpenAPIV3.OperationObject {
+        const {parameters, consumes, produces, responses, schemes, ...rest} = operation
+        const result: any = {...rest}
+
+        const operationParameters: any[] = parameters || []
+        const regular = this.regularParameters(operationParameters)
+        if (regular.length > 0) {
+            result.parameters = regular.map((p) => this.parameter(p))
+        }
+
+        // Path-level body and form parameters are merged in, the operation ones win by name and location
+        const bodyParameters = lodash.uniqBy(
+            [...this.bodyParameters(operationParameters), ...this.bodyParameters(pathParameters)],
+            (parameter) => `${parameter.in}:${parameter.name}`,
+        )
+        if (bodyParameters.length > 0) {
+            result.requestBody = this.requestBody(bodyParameters, consumes || this.doc.consumes || DEFAULT_CONSUMES)
+        }
+
+        result.responses = lodash.mapValues(
+            responses || {},
+            (response: any) => this.response(response, produces || this.doc.produces || DEFAULT_PRODUCES)
+        )
+        return result
+    }
+
+    /**
+     * Parameters that stay parameters in v3 (path, query, header)
+     */
+    private regularParameters(parameters: any[]): any[] {
+        return parameters
+            .map((parameter) => this.resolveParameter(parameter))
+            .filter((parameter) => parameter.in !== 'body' && parameter.in !== 'formData')
+    }
+
+    /**
+     * Parameters that become "requestBody" in v3 (body, formData)
+     */
+    private bodyParameters(parameters: any[]): any[] {
+        return parameters
+            .map((parameter) => this.resolveParameter(parameter))
+            .filter((parameter) => parameter.in === 'body' || parameter.in === 'formData')
+    }
+
+    /**
+     * Body and formData parameters must be inlined, because they become "requestBody".
+     * References to regular parameters are kept as is.
+     */
+    private resolveParameter(parameter: any): any {
+        if (!('$ref' in parameter)) {
+            return parameter
+        }
+        const name = parseJsonPointer(parameter.$ref).pop()!!
+        const target = this.doc.parameters?.[name]
+        if (target && (target.in === 'body' || target.in === 'formData')) {
+            return target
+        }
+        return parameter
+    }
+
+    private parameter(parameter: any): OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject {
+        if ('$ref' in parameter) {
+            return parameter
+        }
+        const result: any = {
+            name: parameter.name,
+            in: parameter.in,
+        }
+        if (parameter.description) {
+            result.description = parameter.description
+        }
+        if (parameter.required || parameter.in === 'path') {
+            result.required = true
+        }
+        result.schema = this.schemaFromParameter(parameter)
+        if (parameter['x-example'] !== undefined) {
+            result.example = parameter['x-example']
+        }
+        if (parameter.type === 'array') {
+            Object.assign(result, this.collectionFormat(parameter))
+        }
+        Object.assign(result, this.extensions(parameter))
+        return result
+    }
+
+    /**
+     * collectionFormat => style + explode
+     */
+    private collectionFormat(parameter: any): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> {
+        const format = parameter.collectionFormat || 'csv'
+        switch (format) {
+            case 'multi':
+                return {style: 'form', explode: true}
+            case 'ssv':
+                return {style: 'spaceDelimited', explode: false}
+            case 'pipes':
+                return {style: 'pipeDelimited', explode: false}
+            case 'csv':
+            case 'tsv':
+            default:
+                // "tsv" has no v3 equivalent, comma-separated is the closest one
+                if (parameter.in === 'query') {
+                    return {style: 'form', explode: false}
+                }
+                return {style: 'simple', explode: false}
+        }
+    }
+
+    private schemaFromParameter(parameter: any): OpenAPIV3.SchemaObject {
+        const schema: any = lodash.pick(parameter, SCHEMA_KEYWORDS)
+        if (schema.type === 'file') {
+            schema.type = 'string'
+            schema.format = 'binary'
+        }
+        if (schema.items) {
+            schema.items = this.schemaFromParameter(schema.items)
+        }
+        return schema
+    }
+
+    private requestBody(parameters: any[], consumes: string[]): OpenAPIV3.RequestBodyObject {
+        const body = parameters.find((p) => p.in === 'body')
+        if (body) {
+            const result: any = {
+                content: this.content(consumes, body.schema),
+            }
+            if (body.description) {
+                result.description = body.description
+            }
+            if (body.required) {
+                result.required = true
+            }
+            Object.assign(result, this.extensions(body))
+            return result
+        }
+
+        // formData
+        const schema: any = {
+            type: 'object',
+            properties: {},
+        }
+        const required: string[] = []
+        for (const parameter of parameters) {
+            const property: any = this.schemaFromParameter(parameter)
+            if (parameter.description) {
+                property.description = parameter.description
+            }
+            schema.properties[parameter.name] = property
+            if (parameter.required) {
+                required.push(parameter.name)
+            }
+        }
+        if (required.length > 0) {
+            schema.required = required
+        }
+        const hasFile = parameters.some((p) => p.type === 'file')
+        let formTypes = consumes.filter((c) => c === 'multipart/form-data' || c === 'application/x-www-form-urlencoded')
+        if (formTypes.length === 0) {
+            formTypes = [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded']
+        }
+        return {
+            content: this.content(formTypes, schema),
+            required: required.length > 0,
+        }
+    }
+
+    private response(response: any, produces: string[]): OpenAPIV3.ReferenceObject | OpenAPIV3.ResponseObject {
+        if ('$ref' in response) {
+            return response
+        }
+        const {schema, examples, headers, ...rest} = response
+        const result: any = {...rest, description: response.description || ''}
+        if (schema) {
+            result.content = this.content(produces, schema)
+            if (examples) {
+                for (const [mediaType, example] of Object.entries(examples)) {
+                    if (result.content[mediaType]) {
+                        result.content[mediaType].example = example
+                    }
+                }
+            }
+        }
+        if (headers) {
+            result.headers = lodash.mapValues(headers, (header: any) => {
+                const {description, ...schema} = header
+                return {description, schema: this.schemaFromParameter(schema)}
+            })
+        }
+        return result
+    }
+
+    private content(mediaTypes: string[], schema: any): { [media: string]: OpenAPIV3.MediaTypeObject } {
+        const content: any = {}
+        for (const mediaType of mediaTypes) {
+            content[mediaType] = {schema: schema}
+        }
+        return content
+    }
+
+    private securityScheme(scheme: any): OpenAPIV3.SecuritySchemeObject {
+        const description = scheme.description ? {description: scheme.description} : {}
+        switch (scheme.type) {
+            case 'basic':
+                return {type: 'http', scheme: 'basic', ...description}
+            case 'apiKey':
+                return {type: 'apiKey', name: scheme.name, in: scheme.in, ...description}
+            case 'oauth2':
+                return {type: 'oauth2', flows: this.oauth2Flows(scheme), ...description}
+            default:
+                return scheme
+        }
+    }
+
+    private oauth2Flows(scheme: any): OpenAPIV3.OAuth2SecurityScheme['flows'] {
+        const scopes = scheme.scopes || {}
+        switch (scheme.flow) {
+            case 'implicit':
+                return {implicit: {authorizationUrl: scheme.authorizationUrl, scopes}}
+            case 'password':
+                return {password: {tokenUrl: scheme.tokenUrl, scopes}}
+            case 'application':
+                return {clientCredentials: {tokenUrl: scheme.tokenUrl, scopes}}
+            case 'accessCode':
+                return {
+                    authorizationCode: {
+                        authorizationUrl: scheme.authorizationUrl,
+                        tokenUrl: scheme.tokenUrl,
+                        scopes,
+                    }
+                }
+            default:
+                return {}
+        }
+    }
+
+    private extensions(obj: any): any {
+        return lodash.pickBy(obj, (value, key) => key.startsWith('x-'))
+    }
+
+    /**
+     * #/definitions/Pet => #/components/schemas/Pet
+     * #/parameters/limit => #/components/parameters/limit (or requestBodies for body parameters)
+     * #/responses/NotFound => #/components/responses/NotFound
+     */
+    private rewriteRefs(obj: any, doc?: any): any {
+        doc = doc || obj
+        if (Array.isArray(obj)) {
+            return obj.map((item) => this.rewriteRefs(item, doc))
+        }
+        if (!lodash.isPlainObject(obj)) {
+            return obj
+        }
+        const result: any = {}
+        for (const [key, value] of Object.entries<any>(obj)) {
+            if (key === '$ref' && typeof value === 'string') {
+                result[key] = this.rewriteRef(value, doc)
+            } else {
+                result[key] = this.rewriteRefs(value, doc)
+            }
+        }
+        return result
+    }
+
+    private rewriteRef(ref: string, doc: any): string {
+        if (ref.startsWith('#/definitions/')) {
+            return ref.replace('#/definitions/', '#/components/schemas/')
+        }
+        if (ref.startsWith('#/parameters/')) {
+            const name = parseJsonPointer(ref)[1]
+            if (doc.parameters?.[name]?.in === 'body') {
+                return ref.replace('#/parameters/', '#/components/requestBodies/')
+            }
+            return ref.replace('#/parameters/', '#/components/parameters/')
+        }
+        if (ref.startsWith('#/responses/')) {
+            return ref.replace('#/responses/', '#/components/responses/')
+        }
+        return ref
+    }
+}
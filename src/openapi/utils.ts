@@ -0,0 +1,46 @@
+import {OpenAPIV3, OpenAPIV3_1} from "openapi-types";
+
+export type SchemaObject = OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+
+/**
+ * Type of the schema, ignoring "null" in OpenAPI 3.1 type unions
+ * {type: ["string", "null"]} => "string"
+ */
+export function schemaType(schema: SchemaObject): string | undefined {
+    const type: string | string[] | undefined = schema.type
+    if (!Array.isArray(type)) {
+        return type
+    }
+    return type.find((t) => t !== 'null')
+}
+
+/**
+ * Either OpenAPI 3.0 "nullable: true" or OpenAPI 3.1 {type: [..., "null"]}
+ */
+export function isNullable(schema: SchemaObject): boolean {
+    if ((schema as OpenAPIV3.SchemaObject).nullable) {
+        return true
+    }
+    const type: string | string[] | undefined = schema.type
+    return Array.isArray(type) && type.includes('null')
+}
+
+/**
+ * {type: "null"} in OpenAPI 3.1, usually used in oneOf/anyOf to make a reference nullable
+ */
+export function isNullSchema(schema: any): boolean {
+    return schema?.type === 'null' || (Array.isArray(schema?.type) && schema.type.every((t: string) => t === 'null'))
+}
+
+/**
+ * Items schema of the array, including OpenAPI 3.1 tuples (prefixItems)
+ */
+export function itemsSchema(schema: any): OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject | undefined {
+    if (schema.items && typeof schema.items === 'object') {
+        return schema.items
+    }
+    if (schema.prefixItems && schema.prefixItems.length > 0) {
+        return schema.prefixItems[0]
+    }
+    return undefined
+}
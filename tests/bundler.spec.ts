@@ -0,0 +1,98 @@
+import {bundleSpec, IFileReader} from "../src/openapi/SpecBundler";
+import {N8NPropertiesBuilder} from "../src/N8NPropertiesBuilder";
+import {resolve} from "path";
+
+class MemoryReader implements IFileReader {
+    constructor(private files: { [path: string]: string }) {
+    }
+
+    read(path: string): string {
+        const content = this.files[path]
+        if (content === undefined) {
+            throw new Error(`Spec file '${path}' not found`)
+        }
+        return content
+    }
+}
+
+const files = {
+    [resolve('/spec/openapi.yaml')]: [
+        'openapi: 3.0.3',
+        'info: {title: Pets, version: "1.0"}',
+        'paths:',
+        '  /pets:',
+        '    $ref: ./paths/pets.yaml',
+        'components:',
+        '  schemas:',
+        '    Error:',
+        '      type: object',
+    ].join('\n'),
+    [resolve('/spec/paths/pets.yaml')]: [
+        'post:',
+        '  operationId: createPet',
+        '  tags: [Pet]',
+        '  requestBody:',
+        '    content:',
+        '      application/json:',
+        '        schema:',
+        '          $ref: ../schemas/Pet.yaml#/Pet',
+        '  responses:',
+        '    default:',
+        '      description: Error',
+        '      content:',
+        '        application/json:',
+        '          schema:',
+        '            $ref: ../openapi.yaml#/components/schemas/Error',
+    ].join('\n'),
+    [resolve('/spec/schemas/Pet.yaml')]: [
+        'Pet:',
+        '  type: object',
+        '  properties:',
+        '    name:',
+        '      type: string',
+        '    category:',
+        '      $ref: ./Category.yaml',
+        '    children:',
+        '      type: array',
+        '      items:',
+        '        $ref: "#/Pet"',
+    ].join('\n'),
+    [resolve('/spec/schemas/Category.yaml')]: [
+        'type: object',
+        'properties:',
+        '  id:',
+        '    type: integer',
+    ].join('\n'),
+}
+
+test('bundle multi-file spec', () => {
+    const doc: any = bundleSpec('/spec/openapi.yaml', new MemoryReader(files))
+    const operation = doc.paths['/pets'].post
+    expect(operation.requestBody.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/Pet',
+    })
+    expect(doc.components.schemas).toEqual({
+        Error: {type: 'object'},
+        Pet: {
+            type: 'object',
+            properties: {
+                name: {type: 'string'},
+                category: {type: 'object', properties: {id: {type: 'integer'}}},
+                children: {type: 'array', items: {$ref: '#/components/schemas/Pet'}},
+            },
+        },
+    })
+    expect(operation.responses.default.content['application/json'].schema).toEqual({type: 'object'})
+
+    const properties = new N8NPropertiesBuilder(doc).build()
+    expect(properties.length).toBeGreaterThan(0)
+});
+
+test('bundle - missing referenced file', () => {
+    const reader = new MemoryReader({
+        [resolve('/spec/openapi.yaml')]: 'openapi: 3.0.3\npaths:\n  /pets:\n    $ref: ./missing.yaml\n',
+    })
+    expect(() => bundleSpec('/spec/openapi.yaml', reader)).toThrow(
+        `Spec file '${resolve('/spec/missing.yaml')}' not found`
+    )
+});
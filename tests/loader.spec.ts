@@ -0,0 +1,57 @@
+import {loadSpec} from "../src/openapi/SpecLoader";
+import {N8NPropertiesBuilder} from "../src/N8NPropertiesBuilder";
+import {join} from "path";
+
+describe('loadSpec', () => {
+    test('json file', () => {
+        const doc = loadSpec(join(__dirname, 'samples', 'petstore.json'))
+        expect(doc).toEqual(require('./samples/petstore.json'))
+    });
+
+    test('yaml string', () => {
+        const doc = loadSpec([
+            'openapi: 3.0.3',
+            'info:',
+            '  title: Entities',
+            '  version: "1.0"',
+            'paths:',
+            '  /api/entities:',
+            '    get:',
+            '      operationId: list',
+            '      tags: [Entity]',
+        ].join('\n'))
+        expect(doc.paths!!['/api/entities']).toEqual({get: {operationId: 'list', tags: ['Entity']}})
+        const properties = new N8NPropertiesBuilder(doc).build()
+        expect(properties[0].options).toEqual([{name: 'Entity', value: 'Entity', description: ''}])
+    });
+
+    test('unquoted swagger version', () => {
+        const doc: any = loadSpec('swagger: 2.0\ninfo: {title: Entities, version: "1.0"}\npaths: {}\n')
+        expect(doc.swagger).toEqual('2.0')
+    });
+
+    test('yaml parse error points to the line', () => {
+        expect(() => loadSpec('openapi: 3.0.3\npaths: [1, 2\ninfo: {}\n')).toThrow(
+            /^Failed to parse <string> at line 3, column 1: /
+        )
+    });
+
+    test('json parse error points to the line', () => {
+        expect(() => loadSpec('{\n  "openapi": "3.0.3",\n  "paths": {\n}')).toThrow(
+            /^Failed to parse <string> at line 4, column 2: /
+        )
+    });
+
+    test('unsupported version', () => {
+        expect(() => loadSpec('openapi: 4.0.0\n')).toThrow(
+            "Unsupported OpenAPI version '4.0.0' in <string>, expected 3.0.x or 3.1.x"
+        )
+        expect(() => loadSpec('info: {}\n')).toThrow(
+            "Invalid spec in <string>: neither 'openapi' nor 'swagger' version field found"
+        )
+    });
+
+    test('missing file', () => {
+        expect(() => loadSpec('missing.yaml')).toThrow("Spec file 'missing.yaml' not found")
+    });
+});